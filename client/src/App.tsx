@@ -1,4 +1,4 @@
-import { Switch, Route, useLocation } from "wouter";
+import { Switch, Route, useLocation, useSearch } from "wouter";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
@@ -9,8 +9,11 @@ import Connect from "@/pages/connect";
 import SendPage from "@/pages/send";
 import ReceivePage from "@/pages/receive";
 import SignPage from "@/pages/sign";
+import PoliciesPage from "@/pages/policies";
+import TransactionPage from "@/pages/transaction";
 import NotFound from "@/pages/not-found";
-import { useEffect } from "react";
+import { registerPaymentHandler } from "@/lib/bip21";
+import { useEffect, useRef } from "react";
 
 function ProtectedRoute({ component: Component, ...rest }: any) {
   const { status } = useLedger();
@@ -30,15 +33,21 @@ function ProtectedRoute({ component: Component, ...rest }: any) {
 function Router() {
   const { status } = useLedger();
   const [location, setLocation] = useLocation();
+  const search = useSearch();
+  // Where to go once connected, so a payment link opened before connecting
+  // still reaches the Send page
+  const returnTo = useRef('/');
 
   // Simple redirect logic
   useEffect(() => {
     if (status !== 'connected' && location !== '/connect') {
+      returnTo.current = search ? `${location}?${search}` : location;
       setLocation('/connect');
     } else if (status === 'connected' && location === '/connect') {
-      setLocation('/');
+      setLocation(returnTo.current);
+      returnTo.current = '/';
     }
-  }, [status, location, setLocation]);
+  }, [status, location, search, setLocation]);
 
   return (
     <Layout>
@@ -48,6 +57,8 @@ function Router() {
         <Route path="/send" component={SendPage} />
         <Route path="/receive" component={ReceivePage} />
         <Route path="/sign" component={SignPage} />
+        <Route path="/policies" component={PoliciesPage} />
+        <Route path="/tx/:txid" component={TransactionPage} />
         <Route component={NotFound} />
       </Switch>
     </Layout>
@@ -55,6 +66,10 @@ function Router() {
 }
 
 function App() {
+  useEffect(() => {
+    registerPaymentHandler();
+  }, []);
+
   return (
     <QueryClientProvider client={queryClient}>
       <LedgerProvider>
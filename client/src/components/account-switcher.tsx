@@ -0,0 +1,127 @@
+import { useLedger } from "@/lib/ledger-context";
+import { ACCOUNT_TYPES, ScriptType, accountPath } from "@/lib/derivation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Loader2, Plus, Settings2 } from "lucide-react";
+import { useState } from "react";
+
+export default function AccountSwitcher() {
+  const { accounts, activeAccount, switchAccount, addAccount, renameAccount, network } = useLedger();
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [manageOpen, setManageOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newType, setNewType] = useState<ScriptType>("wpkh");
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleSwitch = async (id: string) => {
+    setIsSwitching(true);
+    try {
+      await switchAccount(id);
+    } catch (e) {
+      // The context has already shown the error
+      console.error(e);
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    try {
+      await addAccount(newType, newName);
+      setNewName("");
+      setManageOpen(false);
+    } catch (e) {
+      // The context has already shown the error
+      console.error(e);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={activeAccount?.id} onValueChange={handleSwitch} disabled={isSwitching}>
+        <SelectTrigger className="bg-zinc-950/50 border-zinc-800 text-sm" data-testid="select-account">
+          <SelectValue placeholder="Select account" />
+        </SelectTrigger>
+        <SelectContent className="bg-zinc-950 border-zinc-800">
+          {accounts.map((account) => (
+            <SelectItem key={account.id} value={account.id} data-testid={`option-account-${account.id}`}>
+              {account.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="shrink-0 h-9 w-9"
+        onClick={() => setManageOpen(true)}
+        data-testid="button-manage-accounts"
+      >
+        <Settings2 className="w-4 h-4" />
+      </Button>
+
+      <Dialog open={manageOpen} onOpenChange={setManageOpen}>
+        <DialogContent className="sm:max-w-md border-zinc-800 bg-zinc-950">
+          <DialogHeader>
+            <DialogTitle>Accounts</DialogTitle>
+            <DialogDescription>
+              Each account has its own addresses and balance on this device.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            {accounts.map((account) => (
+              <div key={account.id} className="space-y-1">
+                <Input
+                  defaultValue={account.name}
+                  onBlur={(e) => renameAccount(account.id, e.target.value)}
+                  className="bg-zinc-950/50 text-sm"
+                  data-testid={`input-account-name-${account.id}`}
+                />
+                <div className="text-xs text-muted-foreground font-mono px-1">
+                  {ACCOUNT_TYPES[account.scriptType].label} · {accountPath(account.scriptType, account.index, network)}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3 pt-4 border-t border-zinc-800">
+            <Label>Add Account</Label>
+            <Input
+              placeholder="Account name (optional)"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="bg-zinc-950/50 text-sm"
+              data-testid="input-new-account-name"
+            />
+            <Select value={newType} onValueChange={(value) => setNewType(value as ScriptType)}>
+              <SelectTrigger className="bg-zinc-950/50 border-zinc-800 text-sm" data-testid="select-new-account-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-950 border-zinc-800">
+                {(Object.keys(ACCOUNT_TYPES) as ScriptType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {ACCOUNT_TYPES[type].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button className="w-full" onClick={handleAdd} disabled={isAdding} data-testid="button-add-account">
+              {isAdding ? (
+                <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading account...</>
+              ) : (
+                <><Plus className="mr-2 h-4 w-4" /> Add Account</>
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
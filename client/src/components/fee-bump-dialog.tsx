@@ -0,0 +1,175 @@
+import { useLedger, type PreparedTransaction } from "@/lib/ledger-context";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { ArrowUpRight, Loader2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useEffect, useState } from "react";
+import { FEE_PRESETS, FeeEstimates, feeRateForTarget, fetchFeeEstimates } from "@/lib/fees";
+
+// Picks a new fee rate for a stuck transaction, builds the transaction that
+// pays it (a replacement, or a child spending it), and signs and broadcasts
+// it once reviewed
+export default function FeeBumpDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  rateLabel = "New fee rate",
+  minFeeRate,
+  prepare,
+  onSent
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  rateLabel?: string;
+  // Lowest rate worth trying; the dialog starts there
+  minFeeRate: number;
+  prepare: (feeRate: number) => Promise<PreparedTransaction>;
+  onSent: (txid: string) => void;
+}) {
+  const { btcPrice, network, sendBitcoin } = useLedger();
+  const [feeRate, setFeeRate] = useState(String(minFeeRate));
+  const [estimates, setEstimates] = useState<FeeEstimates>({});
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [prepared, setPrepared] = useState<PreparedTransaction | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFeeRate(String(minFeeRate));
+    setPrepared(null);
+    fetchFeeEstimates(network)
+      .then(setEstimates)
+      .catch((error) => console.error("Failed to fetch fee estimates:", error));
+  }, [open, minFeeRate, network]);
+
+  const rate = Number(feeRate);
+  const presets = FEE_PRESETS
+    .map((preset) => ({ ...preset, rate: feeRateForTarget(estimates, preset.target) }))
+    .filter((preset) => preset.rate !== null && preset.rate >= minFeeRate);
+
+  const handlePrepare = async () => {
+    setIsPreparing(true);
+    try {
+      setPrepared(await prepare(rate));
+    } catch (error: any) {
+      toast({
+        title: "Could Not Build Transaction",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleSign = async () => {
+    if (!prepared) return;
+    setIsSigning(true);
+    try {
+      const txid = await sendBitcoin(prepared);
+      toast({
+        title: "Transaction Broadcasted",
+        description: `Transaction ${txid.slice(0, 8)}… sent to the network.`,
+      });
+      onOpenChange(false);
+      onSent(txid);
+    } catch (error: any) {
+      toast({
+        title: "Transaction Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSigning && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-md border-zinc-800 bg-zinc-950">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {isSigning ? "Please verify the transaction details on your Ledger device." : description}
+          </DialogDescription>
+        </DialogHeader>
+
+        {prepared ? (
+          <div className="space-y-4">
+            <div className="text-center space-y-1 bg-zinc-900 p-4 rounded-lg w-full">
+              <div className="text-xs text-muted-foreground">Confirm Output{prepared.recipients.length > 1 ? "s" : ""}</div>
+              {prepared.recipients.map((recipient, i) => (
+                <div key={i}>
+                  <div className="font-mono text-sm break-all">{recipient.address}</div>
+                  <div className="font-mono font-bold text-primary">{recipient.amount.toFixed(8)} BTC</div>
+                </div>
+              ))}
+              <div className="text-xs text-muted-foreground mt-2" data-testid="text-bump-fee">
+                Fee: {prepared.fee.toFixed(8)} BTC (≈ ${(prepared.fee * btcPrice).toFixed(2)})
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {prepared.feeRate.toFixed(1)} sat/vB • {prepared.vsize} vB
+              </div>
+            </div>
+            {isSigning ? (
+              <p className="text-sm text-muted-foreground text-center animate-pulse">Waiting for approval...</p>
+            ) : (
+              <div className="flex gap-3">
+                <Button variant="outline" className="flex-1" onClick={() => setPrepared(null)}>Back</Button>
+                <Button className="flex-1" onClick={handleSign} data-testid="button-bump-sign">
+                  Sign on Ledger <ArrowUpRight className="ml-2 h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {presets.length > 0 && (
+              <div className="grid grid-cols-2 gap-2">
+                {presets.map((preset) => (
+                  <Button
+                    key={preset.target}
+                    type="button"
+                    variant={rate === preset.rate ? "secondary" : "outline"}
+                    className="h-auto flex-col py-2"
+                    onClick={() => setFeeRate(String(preset.rate))}
+                  >
+                    <span className="text-sm font-medium">{preset.label}</span>
+                    <span className="text-xs text-muted-foreground font-mono">{preset.rate} sat/vB</span>
+                  </Button>
+                ))}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="bump-fee-rate">{rateLabel} (sat/vB)</Label>
+              <Input
+                id="bump-fee-rate"
+                type="number"
+                min={minFeeRate}
+                value={feeRate}
+                onChange={(e) => setFeeRate(e.target.value)}
+                className="bg-zinc-950/50 font-mono"
+                data-testid="input-bump-fee-rate"
+              />
+              <p className="text-xs text-muted-foreground">At least {minFeeRate} sat/vB.</p>
+            </div>
+            <Button
+              className="w-full"
+              onClick={handlePrepare}
+              disabled={isPreparing || !(rate >= minFeeRate)}
+              data-testid="button-bump-prepare"
+            >
+              {isPreparing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Review
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
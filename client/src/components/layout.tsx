@@ -6,6 +6,7 @@ import {
   Send, 
   ArrowDownLeft, 
   PenTool, 
+  Users,
   LogOut, 
   ShieldCheck,
   Menu,
@@ -13,10 +14,12 @@ import {
 } from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import AccountSwitcher from "@/components/account-switcher";
+import { NETWORKS } from "@shared/networks";
 
 export default function Layout({ children }: { children: React.ReactNode }) {
   const [location] = useLocation();
-  const { status, disconnect, deviceName } = useLedger();
+  const { status, disconnect, deviceName, network } = useLedger();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   // If not connected and not on connect page, this would usually redirect, 
@@ -27,6 +30,7 @@ export default function Layout({ children }: { children: React.ReactNode }) {
     { href: "/send", label: "Send", icon: Send },
     { href: "/receive", label: "Receive", icon: ArrowDownLeft },
     { href: "/sign", label: "Sign & Verify", icon: PenTool },
+    { href: "/policies", label: "Policies", icon: Users },
   ];
 
   return (
@@ -63,6 +67,9 @@ export default function Layout({ children }: { children: React.ReactNode }) {
                 {item.label}
               </Link>
             ))}
+            {status === 'connected' && (
+              <div className="mt-4 px-4"><AccountSwitcher /></div>
+            )}
             {status === 'connected' && (
               <button 
                 onClick={() => { disconnect(); setMobileMenuOpen(false); }}
@@ -108,10 +115,18 @@ export default function Layout({ children }: { children: React.ReactNode }) {
 
           {status === 'connected' && (
             <div className="mt-auto pt-6 border-t border-border">
+              <div className="mb-4"><AccountSwitcher /></div>
               <div className="flex items-center gap-3 px-4 mb-4">
                 <div className="w-2 h-2 rounded-full bg-emerald-500 shadow-[0_0_10px_hsl(142,76%,36%)] animate-pulse" />
                 <span className="text-xs text-muted-foreground uppercase tracking-wider font-semibold">{deviceName} Connected</span>
               </div>
+              {network !== 'mainnet' && (
+                <div className="px-4 mb-4">
+                  <span className="text-[10px] uppercase bg-yellow-500/20 text-yellow-500 px-1.5 py-0.5 rounded font-bold tracking-wide" data-testid="text-network">
+                    {NETWORKS[network].label}
+                  </span>
+                </div>
+              )}
               <button 
                 onClick={disconnect}
                 className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
@@ -0,0 +1,60 @@
+import { ACCOUNT_TYPES, ScriptType } from './derivation';
+import { NetworkName } from '@shared/networks';
+
+// A BIP44-style account on the connected device: one script type and one
+// hardened account index (m/purpose'/coin'/index')
+export interface WalletAccount {
+  id: string;
+  name: string;
+  scriptType: ScriptType;
+  index: number;
+}
+
+export function accountId(scriptType: ScriptType, index: number): string {
+  return `${scriptType}:${index}`;
+}
+
+export function defaultAccountName(scriptType: ScriptType, index: number): string {
+  return `${ACCOUNT_TYPES[scriptType].label} #${index + 1}`;
+}
+
+export function createAccount(scriptType: ScriptType, index: number, name?: string): WalletAccount {
+  return {
+    id: accountId(scriptType, index),
+    name: name?.trim() || defaultAccountName(scriptType, index),
+    scriptType,
+    index
+  };
+}
+
+// Lowest account index not yet used for this script type
+export function nextAccountIndex(accounts: WalletAccount[], scriptType: ScriptType): number {
+  const used = new Set(accounts.filter(a => a.scriptType === scriptType).map(a => a.index));
+  let index = 0;
+  while (used.has(index)) index++;
+  return index;
+}
+
+// Account lists are stored per device and network, keyed by master fingerprint
+export function loadAccounts(fingerprint: string, network: NetworkName): WalletAccount[] {
+  try {
+    const stored = localStorage.getItem(`accounts:${network}:${fingerprint}`);
+    const accounts: WalletAccount[] = stored ? JSON.parse(stored) : [];
+    if (accounts.length > 0) return accounts;
+  } catch (e) {
+    console.error("Failed to load accounts", e);
+  }
+  return [createAccount('wpkh', 0)];
+}
+
+export function saveAccounts(fingerprint: string, network: NetworkName, accounts: WalletAccount[]) {
+  localStorage.setItem(`accounts:${network}:${fingerprint}`, JSON.stringify(accounts));
+}
+
+export function loadActiveAccountId(fingerprint: string, network: NetworkName): string | null {
+  return localStorage.getItem(`activeAccount:${network}:${fingerprint}`);
+}
+
+export function saveActiveAccountId(fingerprint: string, network: NetworkName, id: string) {
+  localStorage.setItem(`activeAccount:${network}:${fingerprint}`, id);
+}
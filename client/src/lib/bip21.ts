@@ -0,0 +1,80 @@
+// BIP21 payment links: bitcoin:<address>?amount=<BTC>&label=<text>&message=<text>
+
+export interface PaymentRequest {
+  address: string;
+  // Decimal BTC, as written in the link
+  amount?: string;
+  label?: string;
+  message?: string;
+}
+
+const SCHEME = 'bitcoin:';
+
+export function isPaymentUri(text: string): boolean {
+  return text.trim().toLowerCase().startsWith(SCHEME);
+}
+
+function decode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    throw new Error("Payment link is malformed");
+  }
+}
+
+// Throws with a message for the user if the link is malformed or requires a
+// parameter (req-*) this wallet does not understand. The address is not
+// checked against any network here.
+export function parsePaymentUri(uri: string): PaymentRequest {
+  const text = uri.trim();
+  if (!isPaymentUri(text)) throw new Error("Not a bitcoin: payment link");
+
+  // Some wallets write bitcoin://<address>
+  const rest = text.slice(SCHEME.length).replace(/^\/\//, '');
+  const queryStart = rest.indexOf('?');
+  let address = decode(queryStart < 0 ? rest : rest.slice(0, queryStart));
+  const query = queryStart < 0 ? '' : rest.slice(queryStart + 1);
+
+  // QR codes carry bech32 addresses in upper case, which is more compact
+  if (/^(BC|TB|BCRT)1[A-Z0-9]+$/.test(address)) address = address.toLowerCase();
+  if (!address) throw new Error("Payment link has no address");
+
+  const request: PaymentRequest = { address };
+  for (const param of query.split('&')) {
+    if (!param) continue;
+    const separator = param.indexOf('=');
+    const key = decode(separator < 0 ? param : param.slice(0, separator));
+    const value = separator < 0 ? '' : decode(param.slice(separator + 1));
+
+    switch (key) {
+      case 'amount':
+        if (!/^\d*\.?\d{1,8}$/.test(value) || Number(value) <= 0) {
+          throw new Error("Payment link has an invalid amount");
+        }
+        request.amount = value;
+        break;
+      case 'label':
+        request.label = value;
+        break;
+      case 'message':
+        request.message = value;
+        break;
+      default:
+        if (key.startsWith('req-')) {
+          throw new Error(`Payment link requires "${key.slice(4)}", which is not supported`);
+        }
+    }
+  }
+  return request;
+}
+
+// Ask the browser to open bitcoin: links on the Send page, with the link in
+// the uri query parameter
+export function registerPaymentHandler() {
+  if (!('registerProtocolHandler' in navigator)) return;
+  try {
+    navigator.registerProtocolHandler('bitcoin', `${window.location.origin}/send?uri=%s`);
+  } catch (e) {
+    console.error("Failed to register bitcoin: link handler", e);
+  }
+}
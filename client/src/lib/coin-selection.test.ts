@@ -0,0 +1,237 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CoinSelectionParams,
+  DUST_LIMIT,
+  SelectableCoin,
+  fundFromCoins,
+  fundIncluding,
+  selectCoins
+} from './coin-selection';
+import { OUTPUT_SCRIPT_LENGTHS, transactionVbytes } from './tx-size';
+
+interface Coin extends SelectableCoin {
+  id: string;
+}
+
+const WPKH = { type: 'wpkh' } as const;
+
+function coin(id: string, value: number, extra: Partial<Coin> = {}): Coin {
+  return { id, value, address: `addr-${id}`, ...extra };
+}
+
+function params(amount: number, overrides: Partial<CoinSelectionParams> = {}): CoinSelectionParams {
+  return {
+    amount,
+    feeRate: 1,
+    input: WPKH,
+    outputScriptLengths: [OUTPUT_SCRIPT_LENGTHS.wpkh],
+    changeScriptLength: OUTPUT_SCRIPT_LENGTHS.wpkh,
+    ...overrides
+  };
+}
+
+// Size of a one-recipient payment from `inputs` wpkh coins
+function vbytes(inputs: number, withChange: boolean): number {
+  const outputs = withChange ? [OUTPUT_SCRIPT_LENGTHS.wpkh, OUTPUT_SCRIPT_LENGTHS.wpkh] : [OUTPUT_SCRIPT_LENGTHS.wpkh];
+  return transactionVbytes(Array(inputs).fill(WPKH), outputs);
+}
+
+// Repeatable stand-in for Math.random
+function seeded(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+const ids = (coins: Coin[]) => coins.map(c => c.id).sort();
+
+// Every satoshi in goes to the recipient, the fee or the change
+function assertBalanced(coins: Coin[], amount: number, selection: { fee: number; change: number }) {
+  const total = coins.reduce((sum, c) => sum + c.value, 0);
+  assert.equal(total, amount + selection.fee + selection.change);
+}
+
+describe('branch and bound', () => {
+  it('spends a single coin that pays the amount and fee exactly, without change', () => {
+    const coins = [coin('a', 100000), coin('b', 50000), coin('c', 30000)];
+    const amount = 50000 - vbytes(1, false);
+
+    const selection = selectCoins(coins, params(amount));
+    assert.deepEqual(ids(selection.selected), ['b']);
+    assert.equal(selection.change, 0);
+    assert.equal(selection.fee, vbytes(1, false));
+  });
+
+  it('combines coins to avoid change', () => {
+    const coins = [coin('a', 70000), coin('b', 20000), coin('c', 15000), coin('d', 40000)];
+    const amount = 35000 - vbytes(2, false);
+
+    const selection = selectCoins(coins, params(amount));
+    assert.deepEqual(ids(selection.selected), ['b', 'c']);
+    assert.equal(selection.change, 0);
+    assertBalanced(selection.selected, amount, selection);
+  });
+
+  it('leaves a small excess to the fee rather than making change', () => {
+    const coins = [coin('a', 100000), coin('b', 50000)];
+    // Less than an extra output and the cost of spending it later
+    const amount = 50000 - vbytes(1, false) - 40;
+
+    const selection = selectCoins(coins, params(amount));
+    assert.deepEqual(ids(selection.selected), ['b']);
+    assert.equal(selection.change, 0);
+    assert.equal(selection.fee, vbytes(1, false) + 40);
+  });
+});
+
+describe('knapsack fallback', () => {
+  it('makes change from the subset that overshoots least', () => {
+    const coins = [coin('a', 100000), coin('b', 60000), coin('c', 25000)];
+    const amount = 50000;
+
+    const selection = selectCoins(coins, params(amount, { random: seeded(1) }));
+    assert.deepEqual(ids(selection.selected), ['b']);
+    assert.equal(selection.fee, vbytes(1, true));
+    assert.ok(selection.change > DUST_LIMIT);
+    assertBalanced(selection.selected, amount, selection);
+  });
+
+  it('falls back to the largest coins without randomness to help', () => {
+    const coins = [coin('a', 100000), coin('b', 60000), coin('c', 25000)];
+
+    // Never skips a coin, so every round takes the largest first
+    const selection = selectCoins(coins, params(50000, { random: () => 0.9 }));
+    assert.deepEqual(ids(selection.selected), ['a']);
+  });
+});
+
+describe('single random draw', () => {
+  it('spends every coin on an address together under the privacy strategy', () => {
+    const coins = [
+      coin('a1', 30000, { address: 'shared' }),
+      coin('a2', 30000, { address: 'shared' }),
+      coin('b', 80000)
+    ];
+
+    // No swaps, so the shared address is drawn first
+    const selection = selectCoins(coins, params(40000, { strategy: 'privacy', random: () => 0.99 }));
+    assert.deepEqual(ids(selection.selected), ['a1', 'a2']);
+    assert.ok(selection.change > DUST_LIMIT);
+    assertBalanced(selection.selected, 40000, selection);
+  });
+
+  it('draws in random order', () => {
+    const coins = [
+      coin('a1', 30000, { address: 'shared' }),
+      coin('a2', 30000, { address: 'shared' }),
+      coin('b', 80000)
+    ];
+
+    // Always swaps with the first, which puts the other address first
+    const selection = selectCoins(coins, params(40000, { strategy: 'privacy', random: () => 0 }));
+    assert.deepEqual(ids(selection.selected), ['b']);
+  });
+});
+
+describe('strategies', () => {
+  it('spends the oldest coins first, unconfirmed last', () => {
+    const coins = [
+      coin('new', 40000, { blockHeight: 300 }),
+      coin('old', 30000, { blockHeight: 100 }),
+      coin('pending', 90000),
+      coin('middle', 30000, { blockHeight: 200 })
+    ];
+
+    const selection = selectCoins(coins, params(50000, { strategy: 'oldest-first' }));
+    assert.deepEqual(ids(selection.selected), ['middle', 'old']);
+    assertBalanced(selection.selected, 50000, selection);
+  });
+
+  it('consolidates every coin worth spending into the change', () => {
+    const coins = [coin('a', 20000), coin('b', 30000), coin('c', 40000), coin('dust', 500)];
+    const feeRate = 10;
+
+    const selection = selectCoins(coins, params(10000, { strategy: 'consolidate', feeRate }));
+    // The 500 sat coin costs more than it is worth at 10 sat/vB
+    assert.deepEqual(ids(selection.selected), ['a', 'b', 'c']);
+    assert.equal(selection.fee, Math.ceil(feeRate * vbytes(3, true)));
+    assertBalanced(selection.selected, 10000, selection);
+  });
+});
+
+describe('dust and change thresholds', () => {
+  it('gives change below the dust limit to the fee', () => {
+    const amount = 50000;
+    // With a change output, the change would be 300 sats
+    const coins = [coin('a', amount + vbytes(1, true) + 300)];
+
+    const selection = fundFromCoins(coins, params(amount));
+    assert.equal(selection.change, 0);
+    assert.equal(selection.fee, vbytes(1, true) + 300);
+    assert.equal(selection.vsize, vbytes(1, false));
+  });
+
+  it('gives change of exactly the dust limit to the fee', () => {
+    const amount = 50000;
+    const coins = [coin('a', amount + vbytes(1, true) + DUST_LIMIT)];
+
+    const selection = fundFromCoins(coins, params(amount));
+    assert.equal(selection.change, 0);
+    assert.equal(selection.fee, vbytes(1, true) + DUST_LIMIT);
+  });
+
+  it('makes change just above the dust limit', () => {
+    const amount = 50000;
+    const coins = [coin('a', amount + vbytes(1, true) + DUST_LIMIT + 1)];
+
+    const selection = fundFromCoins(coins, params(amount));
+    assert.equal(selection.change, DUST_LIMIT + 1);
+    assert.equal(selection.fee, vbytes(1, true));
+  });
+});
+
+describe('no solution', () => {
+  it('reports the most that could be sent when the coins fall short', () => {
+    const coins = [coin('a', 20000), coin('b', 30000)];
+    const maxSendable = ((50000 - vbytes(2, false)) / 100000000).toFixed(8);
+
+    assert.throws(() => selectCoins(coins, params(60000)), {
+      message: `Insufficient funds. Max sendable: ${maxSendable} BTC`
+    });
+  });
+
+  it('fails for every strategy', () => {
+    const coins = [coin('a', 20000, { blockHeight: 1 }), coin('b', 30000, { blockHeight: 2 })];
+    for (const strategy of ['minimize-fee', 'privacy', 'oldest-first', 'consolidate'] as const) {
+      assert.throws(() => selectCoins(coins, params(60000, { strategy })), /Insufficient funds/);
+    }
+  });
+
+  it('ignores coins that cost more to spend than they are worth', () => {
+    const coins = [coin('dust', 500), coin('dust2', 600)];
+    assert.throws(() => selectCoins(coins, params(100, { feeRate: 10 })), /Max sendable: 0.00000000 BTC/);
+  });
+
+  it('rejects hand-picked coins that do not cover the payment', () => {
+    assert.throws(() => fundFromCoins([coin('a', 20000)], params(20000)), /Selected coins are not enough/);
+  });
+});
+
+describe('fundIncluding', () => {
+  it('keeps the required coins and adds the largest others as needed', () => {
+    const required = [coin('kept', 20000)];
+    const others = [coin('small', 10000), coin('large', 50000)];
+
+    const selection = fundIncluding(required, others, params(40000));
+    assert.deepEqual(ids(selection.selected), ['kept', 'large']);
+    assertBalanced(selection.selected, 40000, selection);
+  });
+
+  it('throws when even every coin is not enough', () => {
+    const others = [coin('other', 10000)];
+    assert.throws(() => fundIncluding([coin('kept', 20000)], others, params(40000)), /Insufficient funds/);
+  });
+});
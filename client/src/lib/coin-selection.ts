@@ -0,0 +1,299 @@
+import { InputSpec, inputWeight, transactionVbytes } from './tx-size';
+
+// Coin selection for a payment, independent of where the coins come from.
+// Branch and bound looks for a set of coins that pays the amount and fee
+// with no change left over; when there is none, a strategy-specific
+// fallback picks coins and the remainder goes to a change output. Amounts
+// are in satoshis, fee rates in sat/vB.
+
+export type CoinSelectionStrategy = 'minimize-fee' | 'privacy' | 'oldest-first' | 'consolidate';
+
+export const COIN_SELECTION_STRATEGIES: Record<CoinSelectionStrategy, { label: string; description: string }> = {
+  'minimize-fee': {
+    label: "Lowest fee",
+    description: "Avoids change when it can, otherwise spends as few coins as possible."
+  },
+  privacy: {
+    label: "Privacy",
+    description: "Spends every coin on an address together and picks the rest at random."
+  },
+  'oldest-first': {
+    label: "Oldest first",
+    description: "Spends coins in the order they were received."
+  },
+  consolidate: {
+    label: "Consolidate",
+    description: "Merges all coins worth spending at this fee rate into the change."
+  }
+};
+
+// Change smaller than this is not worth an output and goes to the fee
+export const DUST_LIMIT = 546;
+
+// Rate the wallet expects to pay in the long run. Spending more coins than
+// needed is wasteful above it, and a cheap way to consolidate below it.
+const LONG_TERM_FEE_RATE = 10;
+
+// Branch and bound gives up after this many steps and falls back
+const BNB_MAX_TRIES = 100000;
+
+// Random subsets tried by the knapsack fallback
+const KNAPSACK_ROUNDS = 1000;
+
+export interface SelectableCoin {
+  value: number;
+  address: string;
+  // Height of the block it confirmed in; undefined while unconfirmed
+  blockHeight?: number;
+}
+
+export interface CoinSelectionParams {
+  // Paid to all recipients together
+  amount: number;
+  feeRate: number;
+  // How each coin is spent; every coin in one selection is spent the same way
+  input: InputSpec;
+  outputScriptLengths: number[];
+  changeScriptLength: number;
+  strategy?: CoinSelectionStrategy;
+  // Source of randomness for the random fallbacks, replaceable in tests
+  random?: () => number;
+}
+
+export interface CoinSelection<T> {
+  selected: T[];
+  // change is 0 when the payment has no change output
+  fee: number;
+  change: number;
+  vsize: number;
+}
+
+// Coins chosen or skipped as a unit: single coins, or every coin on one
+// address under the privacy strategy
+interface Candidate<T> {
+  coins: T[];
+  value: number;
+  // Value less the fee to spend it at the current rate
+  effectiveValue: number;
+}
+
+// Fee for the final shape, with change unless it would be dust or the
+// selection is meant to be changeless. null if the coins do not cover the
+// amount and fee.
+function finish<T extends SelectableCoin>(
+  coins: T[],
+  params: CoinSelectionParams,
+  changeless: boolean
+): CoinSelection<T> | null {
+  const { amount, feeRate, input, outputScriptLengths, changeScriptLength } = params;
+  const total = coins.reduce((sum, coin) => sum + coin.value, 0);
+  const inputs = coins.map(() => input);
+
+  const withChange = transactionVbytes(inputs, [...outputScriptLengths, changeScriptLength]);
+  const changeFee = Math.ceil(feeRate * withChange);
+  const change = total - amount - changeFee;
+  if (!changeless && change > DUST_LIMIT) {
+    return { selected: coins, fee: changeFee, change, vsize: withChange };
+  }
+
+  const withoutChange = transactionVbytes(inputs, outputScriptLengths);
+  if (total < amount + Math.ceil(feeRate * withoutChange)) return null;
+  return { selected: coins, fee: total - amount, change: 0, vsize: withoutChange };
+}
+
+// What the coins could pay after the fee for spending them all, in BTC
+function maxSendable(coins: SelectableCoin[], params: CoinSelectionParams): string {
+  const total = coins.reduce((sum, coin) => sum + coin.value, 0);
+  const fee = Math.ceil(params.feeRate * transactionVbytes(coins.map(() => params.input), params.outputScriptLengths));
+  return (Math.max(0, total - fee) / 100000000).toFixed(8);
+}
+
+// Depth-first search over candidates, largest first, for the selection that
+// lands between the target and the cost of making change, with the least
+// waste: the excess over the target plus what the inputs cost above (or save
+// below) the long-term fee rate. The excess is left to the fee.
+function branchAndBound<T>(
+  candidates: Candidate<T>[],
+  target: number,
+  costOfChange: number,
+  wastePerInput: number
+): Candidate<T>[] | null {
+  const pool = [...candidates].sort((a, b) => b.effectiveValue - a.effectiveValue);
+  const remaining: number[] = [];
+  for (let i = pool.length - 1, sum = 0; i >= 0; i--) {
+    sum += pool[i].effectiveValue;
+    remaining[i] = sum;
+  }
+
+  let best: Candidate<T>[] | null = null;
+  let bestWaste = Infinity;
+  let tries = 0;
+  const picked: Candidate<T>[] = [];
+
+  const search = (index: number, value: number, waste: number) => {
+    if (++tries > BNB_MAX_TRIES || value > target + costOfChange) return;
+    // Extra inputs only add waste while fees are above the long-term rate
+    if (wastePerInput >= 0 && waste > bestWaste) return;
+    if (value >= target) {
+      if (waste + value - target < bestWaste) {
+        best = [...picked];
+        bestWaste = waste + value - target;
+      }
+      return;
+    }
+    if (index >= pool.length || value + remaining[index] < target) return;
+
+    picked.push(pool[index]);
+    search(index + 1, value + pool[index].effectiveValue, waste + pool[index].coins.length * wastePerInput);
+    picked.pop();
+    search(index + 1, value, waste);
+  };
+  search(0, 0, 0);
+  return best;
+}
+
+// Candidates in random order until they cover the target with change
+function singleRandomDraw<T>(candidates: Candidate<T>[], target: number, random: () => number): Candidate<T>[] | null {
+  const shuffled = [...candidates];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return takeUntil(shuffled, target);
+}
+
+function takeUntil<T>(ordered: Candidate<T>[], target: number): Candidate<T>[] | null {
+  const picked: Candidate<T>[] = [];
+  let value = 0;
+  for (const candidate of ordered) {
+    picked.push(candidate);
+    value += candidate.effectiveValue;
+    if (value >= target) return picked;
+  }
+  return null;
+}
+
+// Random subsets of the candidates, largest first, keeping the one that
+// overshoots the target least, and on a tie the one with fewer inputs
+function knapsack<T>(candidates: Candidate<T>[], target: number, random: () => number): Candidate<T>[] | null {
+  const pool = [...candidates].sort((a, b) => b.effectiveValue - a.effectiveValue);
+  let best = takeUntil(pool, target);
+  if (!best) return null;
+  let bestValue = best.reduce((sum, candidate) => sum + candidate.effectiveValue, 0);
+
+  for (let round = 0; round < KNAPSACK_ROUNDS; round++) {
+    const picked: Candidate<T>[] = [];
+    let value = 0;
+    for (const candidate of pool) {
+      if (random() < 0.5) continue;
+      picked.push(candidate);
+      value += candidate.effectiveValue;
+      if (value >= target) break;
+    }
+    if (value >= target && (value < bestValue || (value === bestValue && picked.length < best.length))) {
+      best = picked;
+      bestValue = value;
+    }
+  }
+  return best;
+}
+
+// Pick coins for a payment. Throws with the most that could be sent when
+// the coins cannot cover it.
+export function selectCoins<T extends SelectableCoin>(coins: T[], params: CoinSelectionParams): CoinSelection<T> {
+  const { amount, feeRate, input, outputScriptLengths, changeScriptLength, strategy = 'minimize-fee' } = params;
+  const random = params.random ?? Math.random;
+
+  const inputFee = Math.ceil((feeRate * inputWeight(input)) / 4);
+  const toCandidate = (group: T[]): Candidate<T> => {
+    const value = group.reduce((sum, coin) => sum + coin.value, 0);
+    return { coins: group, value, effectiveValue: value - group.length * inputFee };
+  };
+
+  let candidates: Candidate<T>[];
+  if (strategy === 'privacy') {
+    const byAddress = new Map<string, T[]>();
+    coins.forEach(coin => byAddress.set(coin.address, [...(byAddress.get(coin.address) ?? []), coin]));
+    candidates = Array.from(byAddress.values()).map(toCandidate);
+  } else {
+    candidates = coins.map(coin => toCandidate([coin]));
+  }
+  // Coins that cost more to spend than they are worth only make it worse
+  candidates = candidates.filter(candidate => candidate.effectiveValue > 0);
+
+  // Everything but the inputs: outputs, version, locktime and segwit header
+  const baseFee = Math.ceil(feeRate * transactionVbytes([input], outputScriptLengths)) - inputFee;
+  const target = amount + baseFee;
+  const changeOutputFee = Math.ceil(feeRate * (transactionVbytes([input], [...outputScriptLengths, changeScriptLength])
+    - transactionVbytes([input], outputScriptLengths)));
+  // Making change costs its output now and spending it later
+  const costOfChange = changeOutputFee + Math.ceil((LONG_TERM_FEE_RATE * inputWeight(input)) / 4);
+  // Effective value needed to leave change above dust
+  const changeTarget = target + changeOutputFee + DUST_LIMIT + 1;
+
+  const wastePerInput = Math.ceil(((feeRate - LONG_TERM_FEE_RATE) * inputWeight(input)) / 4);
+  const changeless = () => branchAndBound(candidates, target, costOfChange, wastePerInput);
+
+  // Tried in order; the first that covers the payment wins
+  const attempts: { pick: () => Candidate<T>[] | null; changeless?: boolean }[] = [];
+  switch (strategy) {
+    case 'consolidate':
+      attempts.push({ pick: () => candidates });
+      break;
+    case 'oldest-first': {
+      const byAge = [...candidates].sort((a, b) =>
+        (a.coins[0].blockHeight ?? Infinity) - (b.coins[0].blockHeight ?? Infinity));
+      attempts.push({ pick: () => takeUntil(byAge, changeTarget) }, { pick: () => takeUntil(byAge, target) });
+      break;
+    }
+    case 'privacy':
+      attempts.push(
+        { pick: changeless, changeless: true },
+        { pick: () => singleRandomDraw(candidates, changeTarget, random) },
+        { pick: () => singleRandomDraw(candidates, target, random) }
+      );
+      break;
+    default:
+      attempts.push(
+        { pick: changeless, changeless: true },
+        { pick: () => knapsack(candidates, changeTarget, random) },
+        { pick: () => knapsack(candidates, target, random) }
+      );
+  }
+
+  for (const attempt of attempts) {
+    const picked = attempt.pick();
+    const selection = picked && finish(picked.flatMap(candidate => candidate.coins), params, !!attempt.changeless);
+    if (selection) return selection;
+  }
+
+  // Even spending every economic coin falls short
+  const everything = candidates.flatMap(candidate => candidate.coins);
+  throw new Error(`Insufficient funds. Max sendable: ${maxSendable(everything, params)} BTC`);
+}
+
+// Spend exactly the given coins, with change if there is enough left over.
+// Throws when they cannot cover the payment.
+export function fundFromCoins<T extends SelectableCoin>(coins: T[], params: CoinSelectionParams): CoinSelection<T> {
+  const selection = finish(coins, params, false);
+  if (!selection) {
+    throw new Error(`Selected coins are not enough. Max sendable from them: ${maxSendable(coins, params)} BTC`);
+  }
+  return selection;
+}
+
+// Spend every required coin, adding the largest of the others until the
+// payment is covered. Replacements must keep all the inputs of the
+// transaction they replace.
+export function fundIncluding<T extends SelectableCoin>(
+  required: T[],
+  others: T[],
+  params: CoinSelectionParams
+): CoinSelection<T> {
+  const extra = [...others].sort((a, b) => b.value - a.value);
+  for (let count = 0; count <= extra.length; count++) {
+    const selection = finish([...required, ...extra.slice(0, count)], params, false);
+    if (selection) return selection;
+  }
+  throw new Error(`Insufficient funds. Max sendable: ${maxSendable([...required, ...extra], params)} BTC`);
+}
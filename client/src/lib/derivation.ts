@@ -0,0 +1,103 @@
+import { Buffer } from 'buffer';
+import * as bitcoin from 'bitcoinjs-lib';
+import { HDKey } from '@scure/bip32';
+import { NETWORKS, NetworkName, bitcoinNetwork } from '@shared/networks';
+import { ScriptType, pubkeyToAddress } from '@shared/descriptors';
+
+export { type ScriptType, toXOnly } from '@shared/descriptors';
+
+interface AccountTypeInfo {
+  label: string;
+  purpose: number;
+  descriptorTemplate: 'pkh(@0/**)' | 'sh(wpkh(@0/**))' | 'wpkh(@0/**)' | 'tr(@0/**)';
+}
+
+export const ACCOUNT_TYPES: Record<ScriptType, AccountTypeInfo> = {
+  pkh: {
+    label: "Legacy",
+    purpose: 44,
+    descriptorTemplate: "pkh(@0/**)"
+  },
+  'sh(wpkh)': {
+    label: "Nested SegWit",
+    purpose: 49,
+    descriptorTemplate: "sh(wpkh(@0/**))"
+  },
+  wpkh: {
+    label: "Native SegWit",
+    purpose: 84,
+    descriptorTemplate: "wpkh(@0/**)"
+  },
+  tr: {
+    label: "Taproot",
+    purpose: 86,
+    descriptorTemplate: "tr(@0/**)"
+  }
+};
+
+export function accountPath(scriptType: ScriptType, accountIndex: number, network: NetworkName): string {
+  return `m/${ACCOUNT_TYPES[scriptType].purpose}'/${NETWORKS[network].coinType}'/${accountIndex}'`;
+}
+
+// Key expression with origin info, e.g. [f5acc2fd/84'/0'/0']xpub...
+export function accountKeyExpression(fingerprint: string, path: string, xpub: string): string {
+  return `[${fingerprint}/${path.replace(/^m\//, '')}]${xpub}`;
+}
+
+// Ranged receive and change descriptors for an account, as imported by
+// backends that watch a wallet, e.g. wpkh([f5acc2fd/84'/0'/0']xpub.../0/*)
+export function accountDescriptors(scriptType: ScriptType, keyExpression: string): string[] {
+  return [0, 1].map(change => ACCOUNT_TYPES[scriptType].descriptorTemplate.replace('@0/**', `${keyExpression}/${change}/*`));
+}
+
+// Test networks serialize account keys as tpub, so the version bytes differ
+function accountNode(xpub: string, network: NetworkName): HDKey {
+  return HDKey.fromExtendedKey(xpub, bitcoinNetwork(network).bip32);
+}
+
+export function derivePublicKey(xpub: string, change: number, index: number, network: NetworkName): Buffer {
+  const child = accountNode(xpub, network).deriveChild(change).deriveChild(index);
+  if (!child.publicKey) {
+    throw new Error(`Failed to derive public key for ${change}/${index}`);
+  }
+  return Buffer.from(child.publicKey);
+}
+
+// Redeem script wrapping the P2WPKH program of a Nested SegWit key
+export function nestedSegwitRedeemScript(pubkey: Buffer): Buffer {
+  const { output } = bitcoin.payments.p2wpkh({ pubkey });
+  if (!output) {
+    throw new Error("Failed to build redeem script");
+  }
+  return Buffer.from(output);
+}
+
+// Derive a contiguous range of addresses from the account xpub on the
+// given chain (0 = receive, 1 = change). Runs entirely in the browser; the
+// device is only needed to display an address for verification.
+export function deriveAddressRange(
+  xpub: string,
+  scriptType: ScriptType,
+  change: 0 | 1,
+  startIndex: number,
+  count: number,
+  network: NetworkName
+): string[] {
+  const chainNode = accountNode(xpub, network).deriveChild(change);
+  const derived: string[] = [];
+
+  for (let i = startIndex; i < startIndex + count; i++) {
+    const child = chainNode.deriveChild(i);
+    if (!child.publicKey) {
+      throw new Error(`Failed to derive public key for ${change}/${i}`);
+    }
+
+    const address = pubkeyToAddress(Buffer.from(child.publicKey), scriptType, bitcoinNetwork(network));
+    if (!address) {
+      throw new Error(`Failed to derive address for ${change}/${i}`);
+    }
+    derived.push(address);
+  }
+
+  return derived;
+}
@@ -0,0 +1,145 @@
+import { NetworkName } from '@shared/networks';
+import { apiUrl } from './networks';
+
+export type TransactionKind = 'received' | 'sent' | 'self' | 'consolidation';
+
+export interface SyncedTransaction {
+  txid: string;
+  type: TransactionKind;
+  amount: number;
+  net: number;
+  fee: number | null;
+  counterparties: string[];
+  date: string;
+  status: 'confirmed' | 'pending';
+}
+
+export interface ChainSummary {
+  scanned: number;
+  used: number[];
+  nextIndex: number;
+}
+
+// A spendable coin with the chain and index of the address holding it
+export interface WalletUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  status: { confirmed: boolean; block_height?: number; block_time?: number };
+  address: string;
+  addressIndex: number;
+  change: number;
+}
+
+// Result of /api/wallet/sync; amounts are in satoshis
+export interface WalletSync {
+  balance: { confirmed: number; unconfirmed: number };
+  // First page of history; historyCursor continues it
+  transactions: SyncedTransaction[];
+  historyCursor: string | null;
+  utxos: WalletUtxo[];
+  chains: { receive: ChainSummary; change: ChainSummary };
+}
+
+// BIP44 account discovery in one request: the server derives addresses from
+// the descriptors until each chain ends with `gapLimit` consecutive unused
+// addresses. Addresses already handed out are scanned regardless.
+export async function syncDescriptors(
+  descriptors: string[],
+  known: { receive: number; change: number },
+  gapLimit: number,
+  network: NetworkName
+): Promise<WalletSync> {
+  const response = await fetch(apiUrl('/api/wallet/sync', network), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ descriptors, known, gapLimit })
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to sync wallet");
+  }
+  return response.json();
+}
+
+export interface HistoryFilter {
+  types?: TransactionKind[];
+  from?: Date;
+  to?: Date;
+}
+
+// One page of wallet history, starting from the wallet's used addresses or
+// continuing from a cursor returned by an earlier page or sync
+export async function fetchHistory(
+  start: { addresses: string[] } | { cursor: string },
+  filter: HistoryFilter,
+  network: NetworkName
+): Promise<{ transactions: SyncedTransaction[]; cursor: string | null }> {
+  const unixTime = (date?: Date) => date && Math.floor(date.getTime() / 1000);
+  const response = await fetch(apiUrl('/api/wallet/history', network), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      ...start,
+      types: filter.types,
+      from: unixTime(filter.from),
+      to: unixTime(filter.to)
+    })
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to load transaction history");
+  }
+  return response.json();
+}
+
+export interface TxOutputDetails {
+  scriptPubKey: string;
+  address?: string;
+  value: number;
+}
+
+// A decoded transaction as the chain backend reports it, in satoshis.
+// Inputs carry the output they spend, absent for coinbase inputs.
+export interface TransactionDetails {
+  txid: string;
+  version: number;
+  locktime: number;
+  size: number;
+  weight: number;
+  fee: number;
+  vin: { txid: string; vout: number; sequence: number; prevout?: TxOutputDetails }[];
+  vout: TxOutputDetails[];
+  status: { confirmed: boolean; blockHeight?: number; blockTime?: number };
+}
+
+export async function fetchTransaction(
+  txid: string,
+  network: NetworkName
+): Promise<{ tx: TransactionDetails; tipHeight: number }> {
+  const response = await fetch(apiUrl(`/api/tx/${txid}`, network));
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to load transaction");
+  }
+  return response.json();
+}
+
+// Tell the server's backend which descriptors to watch. Esplora and Electrum
+// can look up any address and ignore this; a node's watch-only wallet needs
+// it before the first scan.
+export async function importDescriptors(descriptors: string[], network: NetworkName) {
+  const response = await fetch(apiUrl('/api/wallet/import', network), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ descriptors })
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to import wallet descriptors");
+  }
+}
@@ -0,0 +1,60 @@
+import { NetworkName } from '@shared/networks';
+import { apiUrl } from './networks';
+
+// Fee rate in sat/vB by confirmation target in blocks, as served by /api/fees
+export type FeeEstimates = Record<number, number>;
+
+export interface FeePreset {
+  label: string;
+  // Confirmation target in blocks
+  target: number;
+}
+
+// Blocks average ten minutes
+export const FEE_PRESETS: FeePreset[] = [
+  { label: 'Next block', target: 1 },
+  { label: '30 min', target: 3 },
+  { label: '1 hour', target: 6 },
+  { label: 'Economy', target: 144 }
+];
+
+// Nodes refuse to relay anything cheaper
+export const MIN_FEE_RATE = 1;
+
+export async function fetchFeeEstimates(network: NetworkName): Promise<FeeEstimates> {
+  const response = await fetch(apiUrl('/api/fees', network));
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to fetch fee estimates");
+  }
+  const { estimates } = await response.json();
+  return estimates;
+}
+
+function sortedTargets(estimates: FeeEstimates): number[] {
+  return Object.keys(estimates).map(Number).sort((a, b) => a - b);
+}
+
+// Whole sat/vB rate for a target, taken from the closest target at or below
+// it so the estimate errs on the fast side. null without any estimates.
+export function feeRateForTarget(estimates: FeeEstimates, target: number): number | null {
+  const targets = sortedTargets(estimates);
+  if (targets.length === 0) return null;
+  const closest = [...targets].reverse().find(t => t <= target) ?? targets[0];
+  return Math.max(MIN_FEE_RATE, Math.ceil(estimates[closest]));
+}
+
+// Fewest blocks a rate is expected to confirm within, or null if it is
+// below every estimate
+export function confirmationTarget(estimates: FeeEstimates, feeRate: number): number | null {
+  return sortedTargets(estimates).find(target => estimates[target] <= feeRate) ?? null;
+}
+
+export function formatBlockTime(blocks: number): string {
+  const minutes = blocks * 10;
+  if (minutes < 60) return `~${minutes} min`;
+  if (minutes < 60 * 24) return `~${Math.round(minutes / 60)} hour${minutes < 90 ? '' : 's'}`;
+  const days = Math.round(minutes / (60 * 24));
+  return `~${days} day${days === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,29 @@
+import { NetworkName } from '@shared/networks';
+
+// Free-text notes keyed by reference: a txid for a transaction, or
+// txid:vout for a single output (as in BIP329)
+export type WalletLabels = Record<string, string>;
+
+// Labels are stored per device and network, like the account list
+export function loadLabels(fingerprint: string, network: NetworkName): WalletLabels {
+  try {
+    const stored = localStorage.getItem(`labels:${network}:${fingerprint}`);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed to load labels", e);
+    return {};
+  }
+}
+
+export function saveLabels(fingerprint: string, network: NetworkName, labels: WalletLabels) {
+  localStorage.setItem(`labels:${network}:${fingerprint}`, JSON.stringify(labels));
+}
+
+export function outpointRef(txid: string, vout: number): string {
+  return `${txid}:${vout}`;
+}
+
+// A coin's own label, falling back to that of the transaction creating it
+export function coinLabel(labels: WalletLabels, txid: string, vout: number): string | undefined {
+  return labels[outpointRef(txid, vout)] ?? labels[txid];
+}
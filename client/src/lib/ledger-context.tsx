@@ -5,21 +5,138 @@ import { AppClient, DefaultWalletPolicy, WalletPolicy } from "ledger-bitcoin";
 import { listen } from "@ledgerhq/logs";
 import { Buffer } from 'buffer';
 import * as bitcoin from 'bitcoinjs-lib';
-import { HDKey } from '@scure/bip32';
+import {
+  ACCOUNT_TYPES,
+  ScriptType,
+  accountDescriptors,
+  accountKeyExpression,
+  accountPath,
+  deriveAddressRange,
+  derivePublicKey,
+  nestedSegwitRedeemScript,
+  toXOnly
+} from './derivation';
+import {
+  WalletAccount,
+  createAccount,
+  loadAccounts,
+  loadActiveAccountId,
+  nextAccountIndex,
+  saveAccounts,
+  saveActiveAccountId
+} from './accounts';
+import { NetworkName, bitcoinNetwork, isNetworkName } from '@shared/networks';
+import { apiUrl, isValidAddress } from './networks';
+import {
+  HistoryFilter,
+  SyncedTransaction,
+  TransactionKind,
+  WalletSync,
+  WalletUtxo,
+  fetchHistory,
+  fetchTransaction,
+  importDescriptors,
+  syncDescriptors
+} from './discovery';
+import { WalletLabels, loadLabels, outpointRef, saveLabels } from './labels';
+import { OUTPUT_SCRIPT_LENGTHS, outputScriptLength, transactionVbytes } from './tx-size';
+import { MIN_FEE_RATE } from './fees';
+import {
+  CoinSelectionParams,
+  CoinSelectionStrategy,
+  DUST_LIMIT,
+  fundFromCoins,
+  fundIncluding,
+  selectCoins
+} from './coin-selection';
+import {
+  RBF_SEQUENCE,
+  ReplacementKind,
+  WalletReplacements,
+  loadReplacements,
+  minimumReplacementFee,
+  saveReplacements,
+  signalsRbf
+} from './replacement';
+import {
+  PolicyUtxo,
+  RegisteredPolicy,
+  SpendPath,
+  derivePolicyAddressRange,
+  finalizePolicyPsbt,
+  formatKeyExpression,
+  multisigKeyPath,
+  parseKeyExpression,
+  policyInput,
+  policyDescriptors,
+  policyKind,
+  policyWitnessScript,
+  loadPolicies,
+  savePolicies,
+  sortedMultiTemplate,
+  timelockRemaining,
+  toWalletPolicy,
+  validateMultisig,
+  validateVaultTimelock,
+  vaultTemplate,
+  vaultTimelock
+} from './policies';
 
 listen((log) => console.log("Ledger:", log));
 
 type LedgerStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 
-interface Transaction {
+// A transaction's effect on the whole wallet, in BTC. `amount` is what was
+// paid to others, received, or moved internally depending on the type; `net`
+// is the signed balance change including the fee.
+export interface Transaction {
   id: string;
-  type: 'sent' | 'received';
+  type: TransactionKind;
   amount: number;
+  net: number;
+  // Only known when this wallet funded every input
+  fee: number | null;
+  counterparties: string[];
   date: Date;
-  address: string;
   status: 'confirmed' | 'pending';
 }
 
+// One output of a payment, in BTC. The label is kept for the output once
+// it is sent.
+export interface Recipient {
+  address: string;
+  amount: number;
+  label?: string;
+}
+
+// An unsigned payment, built and ready for review. Amounts are in BTC.
+export interface PreparedTransaction {
+  accountId: string;
+  psbt: string;
+  // In output order; any change comes after them
+  recipients: Recipient[];
+  // Paid to all recipients together
+  amount: number;
+  // Exact, from the selected inputs and the outputs created
+  fee: number;
+  // Expected size once signed, and the fee rate that works out to
+  vsize: number;
+  feeRate: number;
+  changeIndex: number | null;
+  // The unconfirmed transaction this one replaces, if any
+  replaces: { txid: string; kind: ReplacementKind } | null;
+}
+
+// How a payment is funded: coins picked by a strategy, or exactly the coins
+// given as txid:vout outpoints
+export type CoinChoice = CoinSelectionStrategy | string[];
+
+export interface SendEstimate {
+  fee: number;
+  vsize: number;
+  inputCount: number;
+}
+
 interface LedgerContextType {
   status: LedgerStatus;
   btcBalance: number;
@@ -28,36 +145,212 @@ interface LedgerContextType {
   receiveAddress: string;
   receiveAddressIndex: number;
   addresses: string[];
+  changeAddresses: string[];
   transactions: Transaction[];
+  historyCursor: string | null;
+  loadTransactionHistory: (filter: HistoryFilter, cursor: string | null) => Promise<{ transactions: Transaction[]; cursor: string | null }>;
+  labels: WalletLabels;
+  setLabel: (ref: string, label: string) => void;
+  addressOrigin: (address: string) => string | null;
   deviceName: string;
+  scriptType: ScriptType;
+  accounts: WalletAccount[];
+  activeAccount: WalletAccount | null;
+  switchAccount: (accountId: string) => Promise<void>;
+  addAccount: (scriptType: ScriptType, name?: string) => Promise<void>;
+  renameAccount: (accountId: string, name: string) => void;
   connect: () => Promise<void>;
   disconnect: () => void;
-  sendBitcoin: (amount: number, to: string, feeRate: number) => Promise<string>;
+  fetchUtxos: () => Promise<{ utxos: WalletUtxo[]; tipHeight: number }>;
+  prepareSend: (recipients: Recipient[], feeRate: number, coins?: CoinChoice) => Promise<PreparedTransaction>;
+  prepareBumpFee: (txid: string, feeRate: number) => Promise<PreparedTransaction>;
+  prepareCancel: (txid: string, feeRate: number) => Promise<PreparedTransaction>;
+  prepareCpfp: (txid: string, packageFeeRate: number) => Promise<PreparedTransaction>;
+  replacements: WalletReplacements;
+  sendBitcoin: (prepared: PreparedTransaction) => Promise<string>;
+  estimateSend: (recipients: Recipient[], feeRate: number, coins?: CoinChoice) => SendEstimate | null;
+  maxSendAmount: (to: string[], feeRate: number, outpoints?: string[]) => number;
   signMessage: (message: string, addressIndex?: number) => Promise<string>;
   refreshBalance: () => Promise<void>;
   verifyAddressOnDevice: (addressIndex?: number) => Promise<void>;
-  generateMoreAddresses: () => Promise<void>;
+  gapLimit: number;
+  setGapLimit: (gapLimit: number) => void;
+  network: NetworkName;
+  setNetwork: (network: NetworkName) => void;
+  policies: RegisteredPolicy[];
+  policyStates: Record<string, AccountState>;
+  registerMultisigPolicy: (name: string, threshold: number, keys: string[]) => Promise<RegisteredPolicy>;
+  removePolicy: (policyId: string) => void;
+  syncPolicy: (policyId: string) => Promise<void>;
+  verifyPolicyAddressOnDevice: (policyId: string, addressIndex: number) => Promise<void>;
+  registerVaultPolicy: (name: string, timelock: number, ledgerRole: SpendPath, otherKey: string) => Promise<RegisteredPolicy>;
+  fetchPolicyUtxos: (policyId: string) => Promise<PolicyUtxo[]>;
+  createPolicyPsbt: (policyId: string, amount: number, to: string, feeRate: number, spendPath?: SpendPath) => Promise<string>;
+  signPolicyPsbt: (policyId: string, psbtBase64: string) => Promise<string>;
+  broadcastPolicyPsbt: (policyId: string, psbtBase64: string) => Promise<string>;
+}
+
+// Watch-only state kept separately for every account on the device, and
+// for every registered policy (which has no single xpub)
+export interface AccountState {
+  xpub: string;
+  addresses: string[];
+  changeAddresses: string[];
+  usedAddresses: Set<string>;
+  usedChangeAddresses: Set<string>;
+  receiveAddressIndex: number;
+  changeAddressIndex: number;
+  btcBalance: number;
+  transactions: Transaction[];
+  // Continues `transactions` past the first page; null once all are loaded
+  historyCursor: string | null;
+  // Spendable coins as of the last sync
+  utxos: WalletUtxo[];
+}
+
+const EMPTY_ACCOUNT_STATE: AccountState = {
+  xpub: "",
+  addresses: [],
+  changeAddresses: [],
+  usedAddresses: new Set(),
+  usedChangeAddresses: new Set(),
+  receiveAddressIndex: 0,
+  changeAddressIndex: 0,
+  btcBalance: 0,
+  transactions: [],
+  historyCursor: null,
+  utxos: []
+};
+
+const DEFAULT_GAP_LIMIT = 20;
+
+// PSBT key-origin fields for an input or output owned by this account
+function psbtDerivationFields(scriptType: ScriptType, masterFingerprint: Buffer, pubkey: Buffer, path: string) {
+  if (scriptType === 'tr') {
+    const xOnly = toXOnly(pubkey);
+    return {
+      tapInternalKey: xOnly,
+      tapBip32Derivation: [{ masterFingerprint, pubkey: xOnly, path, leafHashes: [] }]
+    };
+  }
+  return {
+    ...(scriptType === 'sh(wpkh)' && { redeemScript: nestedSegwitRedeemScript(pubkey) }),
+    bip32Derivation: [{ masterFingerprint, pubkey, path }]
+  };
+}
+
+// Coin selection needs to know how old each coin is
+function selectableUtxos(utxos: WalletUtxo[]) {
+  return utxos.map(utxo => ({ ...utxo, blockHeight: utxo.status.block_height }));
+}
+
+// Hand-picked coins are spent as they are; throws if one of them is no
+// longer among the unspent coins
+function chooseCoins(utxos: WalletUtxo[], coins: CoinChoice, params: CoinSelectionParams) {
+  if (!Array.isArray(coins)) {
+    return selectCoins(selectableUtxos(utxos), { ...params, strategy: coins });
+  }
+  const chosen = utxos.filter(utxo => coins.includes(outpointRef(utxo.txid, utxo.vout)));
+  if (chosen.length < coins.length) {
+    throw new Error("A selected coin has already been spent");
+  }
+  return fundFromCoins(selectableUtxos(chosen), params);
+}
+
+// Server amounts are in satoshis; the wallet shows BTC
+function toTransaction(tx: SyncedTransaction): Transaction {
+  return {
+    id: tx.txid,
+    type: tx.type,
+    amount: tx.amount / 100000000,
+    net: tx.net / 100000000,
+    fee: tx.fee === null ? null : tx.fee / 100000000,
+    counterparties: tx.counterparties,
+    date: new Date(tx.date),
+    status: tx.status
+  };
+}
+
+// Balances, history and next unused indexes from a sync of both chains.
+// Addresses are derived here rather than taken from the server, so a
+// misbehaving backend cannot substitute its own receive address.
+function walletStateFromSync(
+  sync: WalletSync,
+  deriveRange: (change: 0 | 1, startIndex: number, count: number) => string[]
+): Omit<AccountState, 'xpub'> {
+  const { receive, change } = sync.chains;
+  const receiveAddrs = deriveRange(0, 0, receive.scanned);
+  const changeAddrs = deriveRange(1, 0, change.scanned);
+  
+  return {
+    addresses: receiveAddrs,
+    changeAddresses: changeAddrs,
+    usedAddresses: new Set(receive.used.map(index => receiveAddrs[index])),
+    usedChangeAddresses: new Set(change.used.map(index => changeAddrs[index])),
+    receiveAddressIndex: receive.nextIndex,
+    changeAddressIndex: change.nextIndex,
+    btcBalance: (sync.balance.confirmed + sync.balance.unconfirmed) / 100000000,
+    transactions: sync.transactions.map(toTransaction),
+    historyCursor: sync.historyCursor,
+    utxos: sync.utxos
+  };
 }
 
 const LedgerContext = createContext<LedgerContextType | undefined>(undefined);
 
 export function LedgerProvider({ children }: { children: ReactNode }) {
   const [status, setStatus] = useState<LedgerStatus>('disconnected');
-  const [btcBalance, setBtcBalance] = useState(0);
   const [btcPrice, setBtcPrice] = useState(96420.50);
-  const [address, setAddress] = useState("");
-  const [addresses, setAddresses] = useState<string[]>([]);
   const [transport, setTransport] = useState<any>(null);
   const [appClient, setAppClient] = useState<AppClient | null>(null);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [masterFingerprint, setMasterFingerprint] = useState<string>("");
-  const [xpub, setXpub] = useState<string>("");
   const [keepAliveInterval, setKeepAliveInterval] = useState<NodeJS.Timeout | null>(null);
   const [wakeLock, setWakeLock] = useState<WakeLockSentinel | null>(null);
   const [deviceName, setDeviceName] = useState<string>("Ledger");
-  const [usedAddresses, setUsedAddresses] = useState<Set<string>>(new Set());
-  const [receiveAddress, setReceiveAddress] = useState<string>("");
-  const [receiveAddressIndex, setReceiveAddressIndex] = useState<number>(0);
+  const [accounts, setAccounts] = useState<WalletAccount[]>([]);
+  const [activeAccountId, setActiveAccountId] = useState<string>("");
+  const [accountStates, setAccountStates] = useState<Record<string, AccountState>>({});
+  const [policies, setPolicies] = useState<RegisteredPolicy[]>([]);
+  const [policyStates, setPolicyStates] = useState<Record<string, AccountState>>({});
+  const [labels, setLabels] = useState<WalletLabels>({});
+  const [replacements, setReplacements] = useState<WalletReplacements>({});
+  const [network, setNetworkState] = useState<NetworkName>(() => {
+    const stored = localStorage.getItem('network');
+    return isNetworkName(stored) ? stored : 'mainnet';
+  });
+  const [gapLimit, setGapLimitState] = useState<number>(
+    () => Number(localStorage.getItem('gapLimit')) || DEFAULT_GAP_LIMIT
+  );
+
+  // The active account's state, exposed through the context as before
+  const activeAccount = accounts.find(a => a.id === activeAccountId) ?? null;
+  const scriptType: ScriptType = activeAccount?.scriptType ?? 'wpkh';
+  const {
+    xpub,
+    addresses,
+    changeAddresses,
+    receiveAddressIndex,
+    changeAddressIndex,
+    usedAddresses,
+    usedChangeAddresses,
+    btcBalance,
+    transactions,
+    historyCursor,
+    utxos
+  } = accountStates[activeAccountId] ?? EMPTY_ACCOUNT_STATE;
+  const address = addresses[0] ?? "";
+  const receiveAddress = addresses[receiveAddressIndex] ?? "";
+  
+  const updateAccountState = (
+    id: string,
+    update: Partial<AccountState> | ((prev: AccountState) => Partial<AccountState>)
+  ) => {
+    setAccountStates(prev => {
+      const current = prev[id] ?? EMPTY_ACCOUNT_STATE;
+      const patch = typeof update === 'function' ? update(current) : update;
+      return { ...prev, [id]: { ...current, ...patch } };
+    });
+  };
 
   useEffect(() => {
     const fetchPrice = async () => {
@@ -75,11 +368,19 @@ export function LedgerProvider({ children }: { children: ReactNode }) {
     return () => clearInterval(interval);
   }, []);
 
-  useEffect(() => {
-    if (addresses.length > 0) {
-      refreshBalance();
-    }
-  }, [addresses]);
+  const setGapLimit = (value: number) => {
+    const limit = Math.max(1, Math.floor(value));
+    localStorage.setItem('gapLimit', limit.toString());
+    setGapLimitState(limit);
+  };
+
+  // The network can only change while disconnected: paths, xpubs and
+  // addresses all depend on it
+  const setNetwork = (value: NetworkName) => {
+    if (status === 'connected') return;
+    localStorage.setItem('network', value);
+    setNetworkState(value);
+  };
 
   const connect = async () => {
     try {
@@ -110,31 +411,20 @@ export function LedgerProvider({ children }: { children: ReactNode }) {
       }
       setMasterFingerprint(fingerprint);
       
-      const extPubKey = await app.getExtendedPubkey("m/84'/0'/0'");
-      setXpub(extPubKey);
-      
-      const policy = new DefaultWalletPolicy(
-        "wpkh(@0/**)",
-        `[${fingerprint}/84'/0'/0']${extPubKey}`
-      );
+      // Restore this device's accounts and open the last active one
+      const deviceAccounts = loadAccounts(fingerprint, network);
+      const storedActiveId = loadActiveAccountId(fingerprint, network);
+      const initialAccount = deviceAccounts.find(a => a.id === storedActiveId) ?? deviceAccounts[0];
       
-      // Derive first 5 addresses
-      const derivedAddresses: string[] = [];
-      for (let i = 0; i < 5; i++) {
-        const addr = await app.getWalletAddress(
-          policy,
-          null,
-          0,
-          i,
-          false
-        );
-        derivedAddresses.push(addr);
-      }
+      const extPubKey = await app.getExtendedPubkey(accountPath(initialAccount.scriptType, initialAccount.index, network));
       
-      setAddresses(derivedAddresses);
-      setAddress(derivedAddresses[0]);
-      setReceiveAddress(derivedAddresses[0]);
-      setReceiveAddressIndex(0);
+      // Discover used addresses on both chains before showing the wallet
+      await loadAccount(initialAccount, extPubKey, fingerprint);
+      setAccounts(deviceAccounts);
+      setActiveAccountId(initialAccount.id);
+      setPolicies(loadPolicies(fingerprint, network));
+      setLabels(loadLabels(fingerprint, network));
+      setReplacements(loadReplacements(fingerprint, network));
       setStatus('connected');
       
       // Start keep-alive ping every 10 seconds to prevent device sleep
@@ -213,145 +503,361 @@ export function LedgerProvider({ children }: { children: ReactNode }) {
     }
     setAppClient(null);
     setStatus('disconnected');
-    setAddress("");
-    setAddresses([]);
-    setBtcBalance(0);
-    setTransactions([]);
     setMasterFingerprint("");
-    setXpub("");
     setDeviceName("Ledger");
-    setUsedAddresses(new Set());
-    setReceiveAddress("");
-    setReceiveAddressIndex(0);
+    setAccounts([]);
+    setActiveAccountId("");
+    setAccountStates({});
+    setPolicies([]);
+    setPolicyStates({});
+    setLabels({});
+    setReplacements({});
     toast({
       title: "Ledger Disconnected",
       description: "Device safely disconnected.",
     });
   };
 
-  const sendBitcoin = async (amount: number, to: string, feeRate: number = 10) => {
-    if (!appClient || !transport || status !== 'connected') throw new Error("Device not connected");
-    if (amount > btcBalance) throw new Error("Insufficient funds");
-    
-    const amountSats = Math.round(amount * 100000000);
-    
-    // Fetch UTXOs
-    toast({
-      title: "Preparing Transaction",
-      description: "Fetching available funds...",
-    });
-    
-    const utxoResponse = await fetch('/api/utxos', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ addresses })
-    });
+  // The active account's unspent coins, straight from the chain, with the
+  // height they are counted from. Also refreshes the coins kept from the last
+  // sync.
+  const fetchUtxos = async (): Promise<{ utxos: WalletUtxo[]; tipHeight: number }> => {
+    const accountId = activeAccountId;
+    const [utxoResponse, tipResponse] = await Promise.all([
+      fetch(apiUrl('/api/utxos', network), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ addresses, changeAddresses })
+      }),
+      fetch(apiUrl('/api/blocks/tip-height', network))
+    ]);
     
-    if (!utxoResponse.ok) {
+    if (!utxoResponse.ok || !tipResponse.ok) {
       throw new Error("Failed to fetch UTXOs");
     }
     
     const { utxos } = await utxoResponse.json();
-    
-    if (!utxos || utxos.length === 0) {
-      throw new Error("No available funds found");
-    }
-    
-    // Sort UTXOs by value (largest first) and select enough for amount + fee
-    utxos.sort((a: any, b: any) => b.value - a.value);
-    
-    const selectedUtxos: any[] = [];
-    let totalInput = 0;
-    
-    // Select UTXOs greedily, recalculating fee as we add inputs
-    for (const utxo of utxos) {
-      selectedUtxos.push(utxo);
-      totalInput += utxo.value;
-      
-      // Calculate fee based on current selection (68 vbytes per input, ~31 per output)
-      const inputSize = selectedUtxos.length * 68;
-      const outputSize = 31 + 31; // recipient + possible change
-      const overheadSize = 10; // tx overhead
-      const currentTxSize = overheadSize + inputSize + outputSize;
-      const currentFee = feeRate * currentTxSize;
-      
-      if (totalInput >= amountSats + currentFee) break;
-    }
-    
-    // Final fee calculation
-    const finalTxSize = 10 + (selectedUtxos.length * 68) + 31 + 31;
-    const estimatedFee = feeRate * finalTxSize;
-    
-    if (totalInput < amountSats + estimatedFee) {
-      const maxSendable = totalInput - estimatedFee;
-      throw new Error(`Insufficient funds. Max sendable: ${(maxSendable / 100000000).toFixed(8)} BTC`);
-    }
-    
-    // Calculate actual fee and change
-    const hasChange = totalInput > amountSats + estimatedFee + 546; // 546 is dust threshold
-    const actualTxSize = 10 + (selectedUtxos.length * 68) + 31 + (hasChange ? 31 : 0);
-    const actualFee = feeRate * actualTxSize;
-    const change = totalInput - amountSats - actualFee;
-    
-    // Create PSBT
-    const psbt = new bitcoin.Psbt({ network: bitcoin.networks.bitcoin });
-    
-    // Parse xpub to get account-level public key using @scure/bip32 (pure JS, no WASM)
-    const accountNode = HDKey.fromExtendedKey(xpub);
-    
-    // Convert master fingerprint from hex string to Buffer
+    const { height } = await tipResponse.json();
+    updateAccountState(accountId, { utxos });
+    return { utxos, tipHeight: height };
+  };
+  
+  // Add coins of the active account as PSBT inputs, with the key origins the
+  // device needs to sign them. Every input opts in to replacement. Returns
+  // their total value as found on chain.
+  const addAccountInputs = async (
+    psbt: bitcoin.Psbt,
+    coins: { txid: string; vout: number; change: number; addressIndex: number }[]
+  ): Promise<number> => {
+    if (!activeAccount) throw new Error("Device not connected");
     const fingerprintBuffer = Buffer.from(masterFingerprint, 'hex');
+    let inputTotal = 0;
     
     // Fetch raw transactions for inputs and add to PSBT
-    for (const utxo of selectedUtxos) {
-      const txHexResponse = await fetch(`/api/tx/${utxo.txid}/hex`);
+    for (const utxo of coins) {
+      const txHexResponse = await fetch(apiUrl(`/api/tx/${utxo.txid}/hex`, network));
       const { hex } = await txHexResponse.json();
       
       // Parse the previous transaction to get the output script
       const prevTx = bitcoin.Transaction.fromHex(hex);
       const prevOutput = prevTx.outs[utxo.vout];
+      inputTotal += Number(prevOutput.value);
       
-      // Derive the public key for this address
-      // change = 0 for receive addresses, addressIndex from UTXO
-      const addressIndex = utxo.addressIndex ?? 0;
-      const change = utxo.change ?? 0;
-      const childNode = accountNode.deriveChild(change).deriveChild(addressIndex);
+      const pubkey = derivePublicKey(xpub, utxo.change, utxo.addressIndex, network);
       
-      if (!childNode.publicKey) {
-        throw new Error("Failed to derive public key for input");
-      }
+      // Legacy inputs need the full previous transaction; SegWit and Taproot
+      // inputs only need the spent output
+      const utxoFields = scriptType === 'pkh'
+        ? { nonWitnessUtxo: Buffer.from(hex, 'hex') }
+        : { witnessUtxo: { script: prevOutput.script, value: BigInt(prevOutput.value) } };
       
-      // For SegWit inputs (bc1 addresses), use witnessUtxo and bip32Derivation
       psbt.addInput({
         hash: utxo.txid,
         index: utxo.vout,
-        witnessUtxo: {
-          script: prevOutput.script,
-          value: BigInt(prevOutput.value)
-        },
-        bip32Derivation: [{
-          masterFingerprint: fingerprintBuffer,
-          pubkey: Buffer.from(childNode.publicKey),
-          path: `m/84'/0'/0'/${change}/${addressIndex}`
-        }]
+        sequence: RBF_SEQUENCE,
+        ...utxoFields,
+        ...psbtDerivationFields(scriptType, fingerprintBuffer, pubkey, `${accountPath(scriptType, activeAccount.index, network)}/${utxo.change}/${utxo.addressIndex}`)
       });
     }
+    return inputTotal;
+  };
+  
+  const addChangeOutput = (psbt: bitcoin.Psbt, changeIndex: number, value: number) => {
+    if (!activeAccount) throw new Error("Device not connected");
+    const changeAddress = changeAddresses[changeIndex];
+    if (!changeAddress) {
+      throw new Error("No change address available");
+    }
+    
+    // Derivation info lets the device recognise this output as change
+    const changePubkey = derivePublicKey(xpub, 1, changeIndex, network);
     
-    // Add recipient output
     psbt.addOutput({
-      address: to,
-      value: BigInt(amountSats)
+      address: changeAddress,
+      value: BigInt(value),
+      ...psbtDerivationFields(scriptType, Buffer.from(masterFingerprint, 'hex'), changePubkey, `${accountPath(scriptType, activeAccount.index, network)}/1/${changeIndex}`)
+    });
+  };
+  
+  // Select coins and build the unsigned PSBT for a payment from the active
+  // account, reporting the fee it actually pays so it can be reviewed
+  // before the device prompt
+  const prepareSend = async (
+    recipients: Recipient[],
+    feeRate: number,
+    coins: CoinChoice = 'minimize-fee'
+  ): Promise<PreparedTransaction> => {
+    if (!appClient || !activeAccount || status !== 'connected') throw new Error("Device not connected");
+    if (recipients.length === 0) throw new Error("No recipients");
+    
+    const { id: accountId } = activeAccount;
+    const amounts = recipients.map(recipient => Math.round(recipient.amount * 100000000));
+    const amountSats = amounts.reduce((sum, value) => sum + value, 0);
+    if (amountSats > Math.round(btcBalance * 100000000)) throw new Error("Insufficient funds");
+    // Nodes will not relay outputs worth less than spending them costs
+    amounts.forEach((value, i) => {
+      if (value <= DUST_LIMIT) {
+        throw new Error(`Amount to ${recipients[i].address} is below the dust limit of ${DUST_LIMIT} sats`);
+      }
     });
     
-    // Add change output if needed
-    if (change > 546) { // Dust threshold
-      const changeAddress = addresses[0]; // Use first address for change
+    toast({
+      title: "Preparing Transaction",
+      description: "Fetching available funds...",
+    });
+    
+    const { utxos } = await fetchUtxos();
+    
+    if (!utxos || utxos.length === 0) {
+      throw new Error("No available funds found");
+    }
+    
+    const selection = chooseCoins(utxos, coins, {
+      amount: amountSats,
+      feeRate,
+      input: { type: scriptType },
+      outputScriptLengths: recipients.map(recipient => outputScriptLength(recipient.address, network)),
+      changeScriptLength: OUTPUT_SCRIPT_LENGTHS[scriptType]
+    });
+    
+    const psbt = new bitcoin.Psbt({ network: bitcoinNetwork(network) });
+    const inputTotal = await addAccountInputs(psbt, selection.selected);
+    
+    recipients.forEach((recipient, i) => {
       psbt.addOutput({
-        address: changeAddress,
-        value: BigInt(Math.floor(change))
+        address: recipient.address,
+        value: BigInt(amounts[i])
       });
+    });
+    
+    // Change goes to the next unused internal-chain address
+    const changeIndex = selection.change > 0 ? changeAddressIndex : null;
+    if (changeIndex !== null) {
+      addChangeOutput(psbt, changeIndex, selection.change);
     }
     
+    // The fee is whatever the inputs fetched from the chain leave over
+    const outputTotal = psbt.txOutputs.reduce((sum, output) => sum + Number(output.value), 0);
+    const fee = inputTotal - outputTotal;
+    
+    return {
+      accountId,
+      psbt: psbt.toBase64(),
+      recipients,
+      amount: amountSats / 100000000,
+      fee: fee / 100000000,
+      vsize: selection.vsize,
+      feeRate: fee / selection.vsize,
+      changeIndex,
+      replaces: null
+    };
+  };
+  
+  // An unconfirmed transaction of the active account that can still be
+  // replaced, with the coins it spends. A replacement spends every one of
+  // them, so all must be ours.
+  const loadReplaceable = async (txid: string) => {
+    const { tx } = await fetchTransaction(txid, network);
+    if (tx.status.confirmed) throw new Error("Transaction is already confirmed");
+    if (!signalsRbf(tx)) throw new Error("Transaction does not signal replace-by-fee");
+    
+    const originalCoins = tx.vin.map(input => {
+      const address = input.prevout?.address;
+      const receiveIndex = address ? addresses.indexOf(address) : -1;
+      const changeIndex = address ? changeAddresses.indexOf(address) : -1;
+      if (!input.prevout || !address || (receiveIndex < 0 && changeIndex < 0)) {
+        throw new Error("Only payments funded entirely by this account can be replaced");
+      }
+      return {
+        txid: input.txid,
+        vout: input.vout,
+        value: input.prevout.value,
+        address,
+        change: receiveIndex < 0 ? 1 : 0,
+        addressIndex: receiveIndex < 0 ? changeIndex : receiveIndex
+      };
+    });
+    return { tx, originalCoins };
+  };
+  
+  // Rebuild an unconfirmed payment of the active account at a higher fee
+  // rate. The payments stay as they are; the extra fee comes out of the
+  // change, or from more confirmed coins when the change cannot cover it.
+  const prepareBumpFee = async (txid: string, feeRate: number): Promise<PreparedTransaction> => {
+    if (!appClient || !activeAccount || status !== 'connected') throw new Error("Device not connected");
+    
+    const { tx, originalCoins } = await loadReplaceable(txid);
+    
+    // The first output to our change chain is the change; everything else
+    // is a payment and keeps its amount
+    const changeVout = tx.vout.findIndex(output => output.address && changeAddresses.includes(output.address));
+    const paymentVouts = tx.vout.map((_, i) => i).filter(i => i !== changeVout);
+    const payments = paymentVouts.map(i => tx.vout[i]);
+    if (payments.length === 0) throw new Error("Transaction has no payment to bump");
+    const paymentTotal = payments.reduce((sum, output) => sum + output.value, 0);
+    
+    const { utxos } = await fetchUtxos();
+    // A replacement may not spend coins that are themselves unconfirmed
+    const spent = new Set(originalCoins.map(coin => outpointRef(coin.txid, coin.vout)));
+    const extra = utxos.filter(utxo => utxo.status.confirmed && !spent.has(outpointRef(utxo.txid, utxo.vout)));
+    
+    const selection = fundIncluding(originalCoins, selectableUtxos(extra), {
+      amount: paymentTotal,
+      feeRate,
+      input: { type: scriptType },
+      outputScriptLengths: payments.map(output => output.scriptPubKey.length / 2),
+      changeScriptLength: OUTPUT_SCRIPT_LENGTHS[scriptType]
+    });
+    
+    const minimumFee = minimumReplacementFee(tx.fee, selection.vsize);
+    if (selection.fee < minimumFee) {
+      throw new Error(`Fee rate too low to replace the original. Use at least ${Math.ceil(minimumFee / selection.vsize)} sat/vB`);
+    }
+    
+    const psbt = new bitcoin.Psbt({ network: bitcoinNetwork(network) });
+    const inputTotal = await addAccountInputs(psbt, selection.selected);
+    
+    for (const output of payments) {
+      psbt.addOutput({ script: Buffer.from(output.scriptPubKey, 'hex'), value: BigInt(output.value) });
+    }
+    
+    // Change stays on the original change address when there was one
+    const changeIndex = selection.change > 0
+      ? (changeVout >= 0 ? changeAddresses.indexOf(tx.vout[changeVout].address!) : changeAddressIndex)
+      : null;
+    if (changeIndex !== null) {
+      addChangeOutput(psbt, changeIndex, selection.change);
+    }
+    
+    const outputTotal = psbt.txOutputs.reduce((sum, output) => sum + Number(output.value), 0);
+    const fee = inputTotal - outputTotal;
+    
+    return {
+      accountId: activeAccount.id,
+      psbt: psbt.toBase64(),
+      // Output labels follow the payments to their new positions
+      recipients: paymentVouts.map(i => ({
+        address: tx.vout[i].address ?? tx.vout[i].scriptPubKey,
+        amount: tx.vout[i].value / 100000000,
+        label: labels[outpointRef(txid, i)]
+      })),
+      amount: paymentTotal / 100000000,
+      fee: fee / 100000000,
+      vsize: selection.vsize,
+      feeRate: fee / selection.vsize,
+      changeIndex,
+      replaces: { txid, kind: 'bump' }
+    };
+  };
+  
+  // Double-spend an unconfirmed payment back to a fresh change address of
+  // the active account, at a fee high enough to replace it
+  const prepareCancel = async (txid: string, feeRate: number): Promise<PreparedTransaction> => {
+    if (!appClient || !activeAccount || status !== 'connected') throw new Error("Device not connected");
+    
+    const { tx, originalCoins } = await loadReplaceable(txid);
+    const changeIndex = changeAddressIndex;
+    const changeAddress = changeAddresses[changeIndex];
+    if (!changeAddress) throw new Error("No change address available");
+    
+    const vsize = transactionVbytes(originalCoins.map(() => ({ type: scriptType })), [OUTPUT_SCRIPT_LENGTHS[scriptType]]);
+    const fee = Math.max(Math.ceil(feeRate * vsize), minimumReplacementFee(tx.fee, vsize));
+    const total = originalCoins.reduce((sum, coin) => sum + coin.value, 0);
+    const value = total - fee;
+    if (value <= DUST_LIMIT) throw new Error("Too little would be left after the fee to cancel this payment");
+    
+    const psbt = new bitcoin.Psbt({ network: bitcoinNetwork(network) });
+    await addAccountInputs(psbt, originalCoins);
+    addChangeOutput(psbt, changeIndex, value);
+    
+    return {
+      accountId: activeAccount.id,
+      psbt: psbt.toBase64(),
+      recipients: [{ address: changeAddress, amount: value / 100000000 }],
+      amount: value / 100000000,
+      fee: fee / 100000000,
+      vsize,
+      feeRate: fee / vsize,
+      changeIndex,
+      replaces: { txid, kind: 'cancel' }
+    };
+  };
+  
+  // Speed up an unconfirmed transaction paying this account by spending its
+  // outputs back to a fresh change address, with a fee that brings the
+  // parent and child together up to the package rate (child pays for parent)
+  const prepareCpfp = async (txid: string, packageFeeRate: number): Promise<PreparedTransaction> => {
+    if (!appClient || !activeAccount || status !== 'connected') throw new Error("Device not connected");
+    
+    const { tx } = await fetchTransaction(txid, network);
+    if (tx.status.confirmed) throw new Error("Transaction is already confirmed");
+    if (tx.vin.some(input => !input.prevout)) throw new Error("The transaction's fee is unknown");
+    
+    const { utxos } = await fetchUtxos();
+    const coins = utxos.filter(utxo => utxo.txid === txid);
+    if (coins.length === 0) throw new Error("This account has no unspent output in the transaction");
+    
+    const changeIndex = changeAddressIndex;
+    const changeAddress = changeAddresses[changeIndex];
+    if (!changeAddress) throw new Error("No change address available");
+    
+    const parentVsize = Math.ceil(tx.weight / 4);
+    const vsize = transactionVbytes(coins.map(() => ({ type: scriptType })), [OUTPUT_SCRIPT_LENGTHS[scriptType]]);
+    const fee = Math.ceil(packageFeeRate * (parentVsize + vsize)) - tx.fee;
+    // The child must also be worth relaying on its own
+    if (fee < Math.ceil(MIN_FEE_RATE * vsize)) {
+      throw new Error(`The transaction already pays ${(tx.fee / parentVsize).toFixed(1)} sat/vB; choose a higher rate`);
+    }
+    const total = coins.reduce((sum, coin) => sum + coin.value, 0);
+    const value = total - fee;
+    if (value <= DUST_LIMIT) throw new Error("The incoming amount is too small to pay for this fee rate");
+    
+    const psbt = new bitcoin.Psbt({ network: bitcoinNetwork(network) });
+    await addAccountInputs(psbt, coins);
+    addChangeOutput(psbt, changeIndex, value);
+    
+    return {
+      accountId: activeAccount.id,
+      psbt: psbt.toBase64(),
+      recipients: [{ address: changeAddress, amount: value / 100000000 }],
+      amount: value / 100000000,
+      fee: fee / 100000000,
+      vsize,
+      feeRate: fee / vsize,
+      changeIndex,
+      replaces: null
+    };
+  };
+  
+  // Sign a prepared payment on the device and broadcast it
+  const sendBitcoin = async (prepared: PreparedTransaction) => {
+    if (!appClient || !transport || status !== 'connected') throw new Error("Device not connected");
+    const account = accounts.find(a => a.id === prepared.accountId);
+    const accountXpub = accountStates[prepared.accountId]?.xpub;
+    if (!account || !accountXpub) throw new Error("Account not loaded");
+    
+    const psbt = bitcoin.Psbt.fromBase64(prepared.psbt, { network: bitcoinNetwork(network) });
+    
     toast({
       title: "Confirm on Device",
       description: "Please review and approve the transaction on your Ledger.",
@@ -360,33 +866,32 @@ export function LedgerProvider({ children }: { children: ReactNode }) {
     try {
       // Create wallet policy for signing
       const policy = new DefaultWalletPolicy(
-        "wpkh(@0/**)",
-        `[${masterFingerprint}/84'/0'/0']${xpub}`
+        ACCOUNT_TYPES[account.scriptType].descriptorTemplate,
+        accountKeyExpression(masterFingerprint, accountPath(account.scriptType, account.index, network), accountXpub)
       );
       
-      const psbtBase64 = psbt.toBase64();
-      console.log("PSBT Base64:", psbtBase64);
-      console.log("Master fingerprint:", masterFingerprint);
-      console.log("Xpub:", xpub);
-      
       // Sign with Ledger - pass base64 PSBT
       // signPsbt returns [[inputIndex, { pubkey, signature }], ...]
       const signatures = await appClient.signPsbt(
-        psbtBase64,
+        prepared.psbt,
         policy,
         null
       );
       
       console.log("Signatures received:", signatures.length);
       
-      // Apply signatures to PSBT
+      // Apply signatures to PSBT (Taproot key-path signatures are Schnorr)
       for (const [inputIndex, partialSig] of signatures) {
-        psbt.updateInput(inputIndex, {
-          partialSig: [{
-            pubkey: partialSig.pubkey,
-            signature: partialSig.signature
-          }]
-        });
+        if (account.scriptType === 'tr') {
+          psbt.updateInput(inputIndex, { tapKeySig: partialSig.signature });
+        } else {
+          psbt.updateInput(inputIndex, {
+            partialSig: [{
+              pubkey: partialSig.pubkey,
+              signature: partialSig.signature
+            }]
+          });
+        }
       }
       
       // Finalize all inputs
@@ -400,7 +905,7 @@ export function LedgerProvider({ children }: { children: ReactNode }) {
         description: "Sending transaction to network...",
       });
       
-      const broadcastResponse = await fetch('/api/broadcast', {
+      const broadcastResponse = await fetch(apiUrl('/api/broadcast', network), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ txHex })
@@ -413,16 +918,51 @@ export function LedgerProvider({ children }: { children: ReactNode }) {
       
       const { txid } = await broadcastResponse.json();
       
-      // Update local state
-      setBtcBalance(prev => prev - amount - (actualFee / 100000000));
-      setTransactions(prev => [{
-        id: txid,
-        type: 'sent',
-        amount,
-        date: new Date(),
-        address: to,
-        status: 'pending'
-      }, ...prev]);
+      // Never hand out the same change address twice
+      if (prepared.changeIndex !== null) {
+        markChangeAddressUsed(prepared.accountId, prepared.changeIndex);
+      }
+      
+      // Update local state; a replacement takes the place of the original.
+      // When paying this account back, only the fee leaves it.
+      const { addresses: ownAddresses = [], changeAddresses: ownChange = [] } = accountStates[prepared.accountId] ?? {};
+      const toSelf = prepared.recipients.every(({ address }) => ownAddresses.includes(address) || ownChange.includes(address));
+      updateAccountState(prepared.accountId, prev => {
+        const replaced = prev.transactions.find(t => t.id === prepared.replaces?.txid);
+        const net = toSelf ? -prepared.fee : -prepared.amount - prepared.fee;
+        return {
+          btcBalance: prev.btcBalance - (replaced?.net ?? 0) + net,
+          transactions: [{
+            id: txid,
+            type: toSelf ? 'self' : 'sent',
+            amount: prepared.amount,
+            net,
+            fee: prepared.fee,
+            counterparties: toSelf ? [] : prepared.recipients.map(recipient => recipient.address),
+            date: new Date(),
+            status: 'pending'
+          }, ...prev.transactions.filter(t => t !== replaced)]
+        };
+      });
+      
+      // Recipient labels go on their outputs. The transaction takes the
+      // original's label when replacing one, and otherwise its recipients'.
+      const recipientLabels = prepared.recipients.map(recipient => recipient.label?.trim() ?? "");
+      const newLabels: WalletLabels = {};
+      recipientLabels.forEach((label, vout) => {
+        if (label) newLabels[outpointRef(txid, vout)] = label;
+      });
+      const txLabel = prepared.replaces
+        ? labels[prepared.replaces.txid]
+        : Array.from(new Set(recipientLabels.filter(Boolean))).join(", ");
+      if (txLabel) newLabels[txid] = txLabel;
+      updateLabels(newLabels);
+      
+      if (prepared.replaces) {
+        const updated = { ...replacements, [prepared.replaces.txid]: { txid, kind: prepared.replaces.kind } };
+        setReplacements(updated);
+        saveReplacements(masterFingerprint, network, updated);
+      }
       
       return txid;
     } catch (e: any) {
@@ -433,9 +973,50 @@ export function LedgerProvider({ children }: { children: ReactNode }) {
       throw new Error(e.message || "Transaction signing failed");
     }
   };
+  
+  // Addresses still being typed are sized like our own
+  const recipientScriptLength = (to: string) => isValidAddress(to, network)
+    ? outputScriptLength(to, network)
+    : OUTPUT_SCRIPT_LENGTHS[scriptType];
+  
+  // Fee and size of a payment from the coins found at the last sync, for
+  // previews while the form is filled in. null when the coins cannot cover
+  // it.
+  const estimateSend = (
+    recipients: Recipient[],
+    feeRate: number,
+    coins: CoinChoice = 'minimize-fee'
+  ): SendEstimate | null => {
+    try {
+      const selection = chooseCoins(utxos, coins, {
+        amount: recipients.reduce((sum, recipient) => sum + Math.round(recipient.amount * 100000000), 0),
+        feeRate,
+        input: { type: scriptType },
+        outputScriptLengths: recipients.map(recipient => recipientScriptLength(recipient.address)),
+        changeScriptLength: OUTPUT_SCRIPT_LENGTHS[scriptType],
+        // A fixed draw keeps the preview from changing on every render
+        random: () => 0.5
+      });
+      return { fee: selection.fee / 100000000, vsize: selection.vsize, inputCount: selection.selected.length };
+    } catch {
+      return null;
+    }
+  };
+  
+  // Most that can be paid to these addresses together, spending every coin
+  // (or every hand-picked one) without change
+  const maxSendAmount = (to: string[], feeRate: number, outpoints?: string[]): number => {
+    const spendable = outpoints
+      ? utxos.filter(utxo => outpoints.includes(outpointRef(utxo.txid, utxo.vout)))
+      : utxos;
+    const total = spendable.reduce((sum, utxo) => sum + utxo.value, 0);
+    const vsize = transactionVbytes(spendable.map(() => ({ type: scriptType })), to.map(recipientScriptLength));
+    return Math.max(0, total - Math.ceil(feeRate * vsize)) / 100000000;
+  };
 
   const signMessage = async (message: string, addressIndex: number = 0) => {
     if (!appClient || status !== 'connected') throw new Error("Device not connected");
+    if (scriptType === 'tr') throw new Error("Message signing is not supported for Taproot addresses");
     
     toast({
       title: "Confirm on Device",
@@ -445,7 +1026,7 @@ export function LedgerProvider({ children }: { children: ReactNode }) {
     try {
       const result = await appClient.signMessage(
         Buffer.from(message),
-        `m/84'/0'/0'/0/${addressIndex}`
+        `${accountPath(scriptType, activeAccount?.index ?? 0, network)}/0/${addressIndex}`
       );
       
       return result;
@@ -455,59 +1036,59 @@ export function LedgerProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const markChangeAddressUsed = (id: string, index: number) => {
+    updateAccountState(id, prev => {
+      // Keep a fresh change address ready for the next payment
+      const account = accounts.find(a => a.id === id);
+      const needsMore = account && index + 1 >= prev.changeAddresses.length;
+      const moreChangeAddresses = needsMore
+        ? deriveAddressRange(prev.xpub, account.scriptType, 1, prev.changeAddresses.length, 5, network)
+        : [];
+      
+      return {
+        usedChangeAddresses: new Set(prev.usedChangeAddresses).add(prev.changeAddresses[index]),
+        changeAddressIndex: Math.max(prev.changeAddressIndex, index + 1),
+        changeAddresses: [...prev.changeAddresses, ...moreChangeAddresses]
+      };
+    });
+  };
+
+  // Receive and change descriptors of an account, as the backend watches them
+  const descriptorsFor = (account: WalletAccount, accountXpub: string, fingerprint: string = masterFingerprint) =>
+    accountDescriptors(
+      account.scriptType,
+      accountKeyExpression(fingerprint, accountPath(account.scriptType, account.index, network), accountXpub)
+    );
+
+  // Scan receive and change chains up to the gap limit and load balances and history
+  const syncWallet = async (
+    account: WalletAccount,
+    accountXpub: string,
+    known: { receive: number; change: number },
+    fingerprint: string = masterFingerprint
+  ) => {
+    const sync = await syncDescriptors(descriptorsFor(account, accountXpub, fingerprint), known, gapLimit, network);
+    
+    updateAccountState(account.id, {
+      xpub: accountXpub,
+      ...walletStateFromSync(sync, (change, start, count) =>
+        deriveAddressRange(accountXpub, account.scriptType, change, start, count, network)
+      )
+    });
+  };
+
+  // First load of an account this session: make sure the backend watches
+  // it, then discover its addresses from scratch
+  const loadAccount = async (account: WalletAccount, accountXpub: string, fingerprint: string = masterFingerprint) => {
+    await importDescriptors(descriptorsFor(account, accountXpub, fingerprint), network);
+    await syncWallet(account, accountXpub, { receive: 0, change: 0 }, fingerprint);
+  };
+
   const refreshBalance = async () => {
-    if (addresses.length === 0) return;
+    if (!xpub || !activeAccount) return;
     
     try {
-      // Fetch balances for all derived addresses
-      const allData = await Promise.all(
-        addresses.map(async (addr, index) => {
-          const response = await fetch(`/api/address/${addr}`);
-          const data = await response.json();
-          return { ...data, addr, index };
-        })
-      );
-      
-      // Aggregate total balance across all addresses
-      const totalBalance = allData.reduce((sum, data) => sum + (data.balance || 0), 0);
-      setBtcBalance(totalBalance);
-      
-      // Track which addresses have received funds (mark as used)
-      const used = new Set<string>();
-      allData.forEach((data) => {
-        if (data.transactions && data.transactions.length > 0) {
-          used.add(data.addr);
-        }
-      });
-      setUsedAddresses(used);
-      
-      // Find the first unused address for receiving
-      let unusedIndex = addresses.findIndex(addr => !used.has(addr));
-      
-      // If all addresses are used, we need to generate more
-      if (unusedIndex === -1) {
-        // For now, use the last address but flag that more are needed
-        unusedIndex = addresses.length - 1;
-        // Auto-generate more addresses if all are used
-        if (appClient && masterFingerprint && xpub) {
-          generateMoreAddressesInternal();
-        }
-      }
-      
-      setReceiveAddress(addresses[unusedIndex]);
-      setReceiveAddressIndex(unusedIndex);
-      
-      // Combine and sort all transactions by date
-      const allTransactions = allData
-        .flatMap((data) => data.transactions || [])
-        .map((tx: any) => ({
-          ...tx,
-          date: new Date(tx.date)
-        }))
-        .sort((a, b) => b.date.getTime() - a.date.getTime())
-        .slice(0, 20); // Keep last 20 transactions
-      
-      setTransactions(allTransactions);
+      await syncWallet(activeAccount, xpub, { receive: addresses.length, change: changeAddresses.length });
     } catch (error) {
       console.error('Failed to fetch balance:', error);
       toast({
@@ -518,41 +1099,58 @@ export function LedgerProvider({ children }: { children: ReactNode }) {
     }
   };
   
-  const generateMoreAddressesInternal = async () => {
-    if (!appClient) return;
-    
-    try {
-      const policy = new DefaultWalletPolicy(
-        "wpkh(@0/**)",
-        `[${masterFingerprint}/84'/0'/0']${xpub}`
-      );
-      
-      const startIndex = addresses.length;
-      const newAddresses: string[] = [];
-      
-      for (let i = startIndex; i < startIndex + 5; i++) {
-        const addr = await appClient.getWalletAddress(
-          policy,
-          null,
-          0,
-          i,
-          false
-        );
-        newAddresses.push(addr);
+  // A page of the active account's history. Without a cursor it starts from
+  // the newest transaction, which is how a filtered view begins.
+  const loadTransactionHistory = async (filter: HistoryFilter, cursor: string | null) => {
+    const start = cursor
+      ? { cursor }
+      : { addresses: [...Array.from(usedAddresses), ...Array.from(usedChangeAddresses)] };
+    const page = await fetchHistory(start, filter, network);
+    return { transactions: page.transactions.map(toTransaction), cursor: page.cursor };
+  };
+  
+  // Set several labels at once; empty ones are removed
+  const updateLabels = (changes: WalletLabels) => {
+    const updated = { ...labels };
+    for (const [ref, label] of Object.entries(changes)) {
+      const trimmed = label.trim();
+      if (trimmed) {
+        updated[ref] = trimmed;
+      } else {
+        delete updated[ref];
       }
-      
-      setAddresses(prev => [...prev, ...newAddresses]);
-      
-      // Set the first new address as receive address if all previous were used
-      if (newAddresses.length > 0 && !receiveAddress) {
-        setReceiveAddress(newAddresses[0]);
-        setReceiveAddressIndex(startIndex);
+    }
+    setLabels(updated);
+    saveLabels(masterFingerprint, network, updated);
+  };
+  
+  // Label a transaction (by txid) or a coin (by txid:vout); an empty label
+  // removes it
+  const setLabel = (ref: string, label: string) => updateLabels({ [ref]: label });
+  
+  // Where one of the wallet's addresses comes from: its full derivation path
+  // in the active account, or its position in a registered policy. null for
+  // addresses that are not ours (or not scanned yet).
+  const addressOrigin = (addr: string): string | null => {
+    const chains = [addresses, changeAddresses];
+    for (let change = 0; change < chains.length; change++) {
+      const index = chains[change].indexOf(addr);
+      if (index >= 0 && activeAccount) {
+        return `${accountPath(activeAccount.scriptType, activeAccount.index, network)}/${change}/${index}`;
       }
-    } catch (e: any) {
-      console.error("Failed to auto-generate addresses", e);
     }
+    for (const policy of policies) {
+      const state = policyStates[policy.id];
+      if (!state) continue;
+      const policyChains = [state.addresses, state.changeAddresses];
+      for (let change = 0; change < policyChains.length; change++) {
+        const index = policyChains[change].indexOf(addr);
+        if (index >= 0) return `${policy.name} /${change}/${index}`;
+      }
+    }
+    return null;
   };
-
+  
   const verifyAddressOnDevice = async (addressIndex: number = 0) => {
     if (!appClient || status !== 'connected') throw new Error("Device not connected");
     
@@ -563,8 +1161,8 @@ export function LedgerProvider({ children }: { children: ReactNode }) {
 
     try {
       const policy = new DefaultWalletPolicy(
-        "wpkh(@0/**)",
-        `[${masterFingerprint}/84'/0'/0']${xpub}`
+        ACCOUNT_TYPES[scriptType].descriptorTemplate,
+        accountKeyExpression(masterFingerprint, accountPath(scriptType, activeAccount?.index ?? 0, network), xpub)
       );
       
       await appClient.getWalletAddress(
@@ -591,46 +1189,403 @@ export function LedgerProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const generateMoreAddresses = async () => {
-    if (!appClient || status !== 'connected') throw new Error("Device not connected");
+  // Open another account; state already loaded this session is shown
+  // immediately and refreshed in the background
+  const switchAccount = async (id: string) => {
+    const account = accounts.find(a => a.id === id);
+    if (!account || id === activeAccountId) return;
     
     try {
-      const policy = new DefaultWalletPolicy(
-        "wpkh(@0/**)",
-        `[${masterFingerprint}/84'/0'/0']${xpub}`
-      );
-      
-      const startIndex = addresses.length;
-      const newAddresses: string[] = [];
+      if (!appClient || status !== 'connected') throw new Error("Device not connected");
+      const cached = accountStates[id];
+      const extPubKey = cached?.xpub || await appClient.getExtendedPubkey(accountPath(account.scriptType, account.index, network));
       
-      for (let i = startIndex; i < startIndex + 5; i++) {
-        const addr = await appClient.getWalletAddress(
-          policy,
-          null,
-          0,
-          i,
-          false
+      if (cached) {
+        setActiveAccountId(id);
+        syncWallet(account, extPubKey, { receive: cached.addresses.length, change: cached.changeAddresses.length }).catch((e) =>
+          console.error("Failed to refresh account", e)
         );
-        newAddresses.push(addr);
+      } else {
+        await loadAccount(account, extPubKey);
+        setActiveAccountId(id);
       }
+      saveActiveAccountId(masterFingerprint, network, id);
+    } catch (e: any) {
+      console.error("Failed to switch account", e);
+      toast({
+        title: "Switch Failed",
+        description: e.message || `Could not load ${account.name}.`,
+        variant: "destructive",
+      });
+      throw e;
+    }
+  };
+
+  const addAccount = async (type: ScriptType, name?: string) => {
+    const account = createAccount(type, nextAccountIndex(accounts, type), name);
+    
+    try {
+      if (!appClient || status !== 'connected') throw new Error("Device not connected");
+      const extPubKey = await appClient.getExtendedPubkey(accountPath(type, account.index, network));
+      await loadAccount(account, extPubKey);
       
-      setAddresses(prev => [...prev, ...newAddresses]);
+      const updated = [...accounts, account];
+      setAccounts(updated);
+      saveAccounts(masterFingerprint, network, updated);
+      setActiveAccountId(account.id);
+      saveActiveAccountId(masterFingerprint, network, account.id);
       
       toast({
-        title: "Addresses Generated",
-        description: `Generated 5 more addresses (${startIndex + 1}-${startIndex + 5}).`,
+        title: "Account Added",
+        description: `${account.name} (${accountPath(type, account.index, network)})`,
       });
     } catch (e: any) {
-      console.error("Failed to generate addresses", e);
+      console.error("Failed to add account", e);
       toast({
-        title: "Generation Failed",
-        description: e.message || "Could not generate more addresses.",
+        title: "Add Account Failed",
+        description: e.message || "Could not load the new account from the device.",
         variant: "destructive",
       });
       throw e;
     }
   };
 
+  const renameAccount = (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    
+    const updated = accounts.map(a => a.id === id ? { ...a, name: trimmed } : a);
+    setAccounts(updated);
+    saveAccounts(masterFingerprint, network, updated);
+  };
+
+  // BIP48 key this device contributes to policies
+  const ownPolicyKey = async () => {
+    if (!appClient) throw new Error("Device not connected");
+    const path = multisigKeyPath(0, network);
+    return accountKeyExpression(masterFingerprint, path, await appClient.getExtendedPubkey(path));
+  };
+
+  // Show the policy on the device for approval and keep the returned HMAC
+  const registerPolicy = async (draft: RegisteredPolicy, description: string) => {
+    if (!appClient || status !== 'connected') throw new Error("Device not connected");
+    
+    toast({
+      title: "Confirm on Device",
+      description: "Please review the policy and every co-signer key on your Ledger.",
+    });
+    
+    const [id, hmac] = await appClient.registerWallet(toWalletPolicy(draft));
+    const policy = { ...draft, id: id.toString('hex'), hmac: hmac.toString('hex') };
+    
+    const updated = [...policies.filter(p => p.id !== policy.id), policy];
+    setPolicies(updated);
+    savePolicies(masterFingerprint, network, updated);
+    
+    toast({
+      title: "Policy Registered",
+      description: `${policy.name} (${description})`,
+    });
+    return policy;
+  };
+
+  const registrationFailed = (e: any) => {
+    console.error("Policy registration failed", e);
+    toast({
+      title: "Registration Failed",
+      description: e.message || "Could not register the policy on the device.",
+      variant: "destructive",
+    });
+  };
+
+  // Register a k-of-n sortedmulti policy on the device. Our own BIP48 key is
+  // added unless one of the given keys already belongs to this device.
+  const registerMultisigPolicy = async (name: string, threshold: number, cosignerKeys: string[]) => {
+    try {
+      const keys = cosignerKeys.map(key => formatKeyExpression(parseKeyExpression(key, network)));
+      if (!keys.some(key => parseKeyExpression(key, network).fingerprint === masterFingerprint)) {
+        keys.unshift(await ownPolicyKey());
+      }
+      if (new Set(keys).size !== keys.length) {
+        throw new Error("The same key appears more than once");
+      }
+      validateMultisig(threshold, keys.length);
+      
+      return await registerPolicy({
+        id: "",
+        name: name.trim(),
+        descriptorTemplate: sortedMultiTemplate(threshold, keys.length),
+        keys,
+        hmac: "",
+        threshold
+      }, `${threshold}-of-${keys.length}`);
+    } catch (e: any) {
+      registrationFailed(e);
+      throw e;
+    }
+  };
+
+  // Register a timelock vault with this device as either the primary or the
+  // recovery key, and `otherKey` in the remaining role
+  const registerVaultPolicy = async (name: string, timelock: number, ledgerRole: SpendPath, otherKey: string) => {
+    try {
+      validateVaultTimelock(timelock);
+      const other = formatKeyExpression(parseKeyExpression(otherKey, network));
+      const own = await ownPolicyKey();
+      if (other === own) {
+        throw new Error("Primary and recovery keys must differ");
+      }
+      
+      return await registerPolicy({
+        id: "",
+        name: name.trim(),
+        descriptorTemplate: vaultTemplate(timelock),
+        keys: ledgerRole === 'primary' ? [own, other] : [other, own],
+        hmac: "",
+        threshold: 1
+      }, `recovery after ${timelock} blocks`);
+    } catch (e: any) {
+      registrationFailed(e);
+      throw e;
+    }
+  };
+
+  const removePolicy = (policyId: string) => {
+    const updated = policies.filter(p => p.id !== policyId);
+    setPolicies(updated);
+    savePolicies(masterFingerprint, network, updated);
+  };
+
+  const syncPolicy = async (policyId: string) => {
+    const policy = policies.find(p => p.id === policyId);
+    if (!policy) throw new Error("Unknown policy");
+    
+    const known = policyStates[policyId] ?? EMPTY_ACCOUNT_STATE;
+    const descriptors = policyDescriptors(policy);
+    if (known.addresses.length === 0) {
+      await importDescriptors(descriptors, network);
+    }
+    const sync = await syncDescriptors(
+      descriptors,
+      { receive: known.addresses.length, change: known.changeAddresses.length },
+      gapLimit,
+      network
+    );
+    
+    setPolicyStates(prev => ({
+      ...prev,
+      [policyId]: {
+        xpub: "",
+        ...walletStateFromSync(sync, (change, start, count) =>
+          derivePolicyAddressRange(policy, change, start, count, network)
+        )
+      }
+    }));
+  };
+
+  const verifyPolicyAddressOnDevice = async (policyId: string, addressIndex: number) => {
+    if (!appClient || status !== 'connected') throw new Error("Device not connected");
+    const policy = policies.find(p => p.id === policyId);
+    if (!policy) throw new Error("Unknown policy");
+    
+    toast({
+      title: "Check Your Ledger",
+      description: "Please verify the address displayed on your device matches.",
+    });
+
+    try {
+      await appClient.getWalletAddress(toWalletPolicy(policy), Buffer.from(policy.hmac, 'hex'), 0, addressIndex, true);
+      
+      toast({
+        title: "Address Verified",
+        description: "The address on your device matches.",
+        variant: "default",
+      });
+    } catch (e: any) {
+      console.error("Verification failed", e);
+      toast({
+        title: "Verification Failed",
+        description: e.message || "Could not verify address on device.",
+        variant: "destructive",
+      });
+      throw e;
+    }
+  };
+
+  // Unspent outputs of a policy with their confirmation count, which is what
+  // a vault's relative timelock is measured against
+  const fetchPolicyUtxos = async (policyId: string): Promise<PolicyUtxo[]> => {
+    const state = policyStates[policyId];
+    if (!state) throw new Error("Policy not loaded");
+    
+    const [utxoResponse, tipResponse] = await Promise.all([
+      fetch(apiUrl('/api/utxos', network), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ addresses: state.addresses, changeAddresses: state.changeAddresses })
+      }),
+      fetch(apiUrl('/api/blocks/tip-height', network))
+    ]);
+    
+    if (!utxoResponse.ok || !tipResponse.ok) {
+      throw new Error("Failed to fetch UTXOs");
+    }
+    
+    const { utxos } = await utxoResponse.json();
+    const { height } = await tipResponse.json();
+    
+    return utxos.map((utxo: any) => ({
+      txid: utxo.txid,
+      vout: utxo.vout,
+      value: utxo.value,
+      address: utxo.address,
+      addressIndex: utxo.addressIndex,
+      change: utxo.change,
+      blockHeight: utxo.status?.block_height,
+      confirmations: utxo.status?.confirmed ? height - utxo.status.block_height + 1 : 0
+    }));
+  };
+
+  // Build an unsigned PSBT spending from a policy, carrying the witness
+  // script and every co-signer's key origin so any signer can complete it.
+  // A vault's recovery path can only use coins past the timelock, and
+  // commits to it through each input's nSequence.
+  const createPolicyPsbt = async (
+    policyId: string,
+    amount: number,
+    to: string,
+    feeRate: number,
+    spendPath: SpendPath = 'primary'
+  ) => {
+    const policy = policies.find(p => p.id === policyId);
+    const state = policyStates[policyId];
+    if (!policy || !state) throw new Error("Policy not loaded");
+    if (amount > state.btcBalance) throw new Error("Insufficient funds");
+    
+    const amountSats = Math.round(amount * 100000000);
+    const isRecovery = policyKind(policy) === 'vault' && spendPath === 'recovery';
+    
+    const utxos = (await fetchPolicyUtxos(policyId))
+      .filter(utxo => !isRecovery || timelockRemaining(policy, utxo) === 0);
+    
+    if (utxos.length === 0) {
+      throw new Error(isRecovery ? "No coins are past the timelock yet" : "No available funds found");
+    }
+    
+    const selection = selectCoins(utxos, {
+      amount: amountSats,
+      feeRate,
+      input: policyInput(policy, spendPath),
+      outputScriptLengths: [outputScriptLength(to, network)],
+      changeScriptLength: OUTPUT_SCRIPT_LENGTHS.wsh
+    });
+    
+    const psbt = new bitcoin.Psbt({ network: bitcoinNetwork(network) });
+    
+    for (const utxo of selection.selected) {
+      const { witnessScript, bip32Derivation } = policyWitnessScript(policy, utxo.change, utxo.addressIndex, network);
+      const { output } = bitcoin.payments.p2wsh({ redeem: { output: witnessScript } });
+      
+      psbt.addInput({
+        hash: utxo.txid,
+        index: utxo.vout,
+        // A relative timelock below 0xfffffffe signals replaceability too
+        sequence: isRecovery ? vaultTimelock(policy) : RBF_SEQUENCE,
+        witnessUtxo: { script: output!, value: BigInt(utxo.value) },
+        witnessScript,
+        bip32Derivation
+      });
+    }
+    
+    psbt.addOutput({
+      address: to,
+      value: BigInt(amountSats)
+    });
+    
+    if (selection.change > 0) {
+      const changeIndex = state.changeAddressIndex;
+      const changeAddress = state.changeAddresses[changeIndex];
+      if (!changeAddress) {
+        throw new Error("No change address available");
+      }
+      const { witnessScript, bip32Derivation } = policyWitnessScript(policy, 1, changeIndex, network);
+      
+      psbt.addOutput({
+        address: changeAddress,
+        value: BigInt(selection.change),
+        witnessScript,
+        bip32Derivation
+      });
+    }
+    
+    return psbt.toBase64();
+  };
+
+  // Add this device's signatures to a (possibly partially signed) policy PSBT
+  const signPolicyPsbt = async (policyId: string, psbtBase64: string) => {
+    if (!appClient || status !== 'connected') throw new Error("Device not connected");
+    const policy = policies.find(p => p.id === policyId);
+    if (!policy) throw new Error("Unknown policy");
+    
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64.trim(), { network: bitcoinNetwork(network) });
+    
+    toast({
+      title: "Confirm on Device",
+      description: "Please review and approve the transaction on your Ledger.",
+    });
+    
+    try {
+      const signatures = await appClient.signPsbt(psbt.toBase64(), toWalletPolicy(policy), Buffer.from(policy.hmac, 'hex'));
+      
+      for (const [inputIndex, partialSig] of signatures) {
+        const existing = psbt.data.inputs[inputIndex].partialSig ?? [];
+        if (existing.some(sig => Buffer.from(sig.pubkey).equals(partialSig.pubkey))) continue;
+        
+        psbt.updateInput(inputIndex, {
+          partialSig: [{
+            pubkey: partialSig.pubkey,
+            signature: partialSig.signature
+          }]
+        });
+      }
+      
+      return psbt.toBase64();
+    } catch (e: any) {
+      console.error("Signing failed:", e);
+      if (e.message?.includes("denied") || e.message?.includes("rejected")) {
+        throw new Error("Transaction rejected on device");
+      }
+      throw new Error(e.message || "Transaction signing failed");
+    }
+  };
+
+  const broadcastPolicyPsbt = async (policyId: string, psbtBase64: string) => {
+    const policy = policies.find(p => p.id === policyId);
+    if (!policy) throw new Error("Unknown policy");
+    
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64.trim(), { network: bitcoinNetwork(network) });
+    finalizePolicyPsbt(policy, psbt);
+    const txHex = psbt.extractTransaction().toHex();
+    
+    const broadcastResponse = await fetch(apiUrl('/api/broadcast', network), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txHex })
+    });
+    
+    if (!broadcastResponse.ok) {
+      const error = await broadcastResponse.json();
+      throw new Error(error.error || "Broadcast failed");
+    }
+    
+    const { txid } = await broadcastResponse.json();
+    
+    // Picks up the spent inputs and moves past the change address just used
+    syncPolicy(policyId).catch((e) => console.error("Failed to refresh policy", e));
+    
+    return txid;
+  };
+
   return (
     <LedgerContext.Provider value={{
       status,
@@ -640,15 +1595,49 @@ export function LedgerProvider({ children }: { children: ReactNode }) {
       receiveAddress,
       receiveAddressIndex,
       addresses,
+      changeAddresses,
       transactions,
+      historyCursor,
+      loadTransactionHistory,
+      labels,
+      setLabel,
+      addressOrigin,
       deviceName,
+      scriptType,
+      accounts,
+      activeAccount,
+      switchAccount,
+      addAccount,
+      renameAccount,
       connect,
       disconnect,
+      fetchUtxos,
+      prepareSend,
+      prepareBumpFee,
+      prepareCancel,
+      prepareCpfp,
+      replacements,
       sendBitcoin,
+      estimateSend,
+      maxSendAmount,
       signMessage,
       refreshBalance,
       verifyAddressOnDevice,
-      generateMoreAddresses
+      gapLimit,
+      setGapLimit,
+      network,
+      setNetwork,
+      policies,
+      policyStates,
+      registerMultisigPolicy,
+      registerVaultPolicy,
+      removePolicy,
+      syncPolicy,
+      verifyPolicyAddressOnDevice,
+      fetchPolicyUtxos,
+      createPolicyPsbt,
+      signPolicyPsbt,
+      broadcastPolicyPsbt
     }}>
       {children}
     </LedgerContext.Provider>
@@ -0,0 +1,17 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { NetworkName, bitcoinNetwork } from '@shared/networks';
+
+// Every API request names the network so the server picks the matching backend
+export function apiUrl(path: string, network: NetworkName): string {
+  const separator = path.includes('?') ? '&' : '?';
+  return `${path}${separator}network=${network}`;
+}
+
+export function isValidAddress(address: string, network: NetworkName): boolean {
+  try {
+    bitcoin.address.toOutputScript(address, bitcoinNetwork(network));
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,338 @@
+import { Buffer } from 'buffer';
+import * as bitcoin from 'bitcoinjs-lib';
+import { HDKey } from '@scure/bip32';
+import { WalletPolicy } from 'ledger-bitcoin';
+import { NETWORKS, NetworkName, bitcoinNetwork } from '@shared/networks';
+import { sortedMultiScript, vaultScript, witnessScriptAddress } from '@shared/descriptors';
+import { InputSpec, multisigInput } from './tx-size';
+
+// A wallet policy registered on the device. The HMAC returned by
+// registerWallet is required for every later address or signing request.
+export interface RegisteredPolicy {
+  id: string;
+  name: string;
+  descriptorTemplate: string;
+  keys: string[];
+  hmac: string;
+  threshold: number;
+}
+
+export type PolicyKind = 'sortedmulti' | 'vault';
+
+// Vault spending paths: the primary key at any time, or the recovery key
+// once the coin is older than the relative timelock
+export type SpendPath = 'primary' | 'recovery';
+
+export interface KeyInfo {
+  fingerprint: string;
+  path: string;
+  xpub: string;
+}
+
+// The Ledger app accepts at most 16 keys in a multisig policy
+export const MAX_MULTISIG_KEYS = 16;
+
+// BIP68 block-based relative timelocks are limited to 16 bits
+export const MAX_VAULT_TIMELOCK = 65535;
+
+// BIP48 path for P2WSH multisig keys: m/48'/coin'/account'/2'
+export function multisigKeyPath(accountIndex: number, network: NetworkName): string {
+  return `m/48'/${NETWORKS[network].coinType}'/${accountIndex}'/2'`;
+}
+
+export function sortedMultiTemplate(threshold: number, keyCount: number): string {
+  const placeholders = Array.from({ length: keyCount }, (_, i) => `@${i}/**`);
+  return `wsh(sortedmulti(${threshold},${placeholders.join(',')}))`;
+}
+
+// Primary key @0 can always spend; recovery key @1 only after `timelock` blocks
+export function vaultTemplate(timelock: number): string {
+  return `wsh(or_d(pk(@0/**),and_v(v:pkh(@1/**),older(${timelock}))))`;
+}
+
+export function policyKind(policy: RegisteredPolicy): PolicyKind {
+  return policy.descriptorTemplate.startsWith('wsh(sortedmulti(') ? 'sortedmulti' : 'vault';
+}
+
+export function vaultTimelock(policy: RegisteredPolicy): number {
+  const match = policy.descriptorTemplate.match(/older\((\d+)\)/);
+  return match ? Number(match[1]) : 0;
+}
+
+// SLIP-132 public key versions used by other coordinators for P2WSH and
+// P2SH-P2WSH multisig (Zpub/Ypub and their testnet Vpub/Upub)
+const SLIP132_PUBLIC_VERSIONS: Record<string, number> = {
+  Zpub: 0x02aa7ed3,
+  Ypub: 0x0295b43f,
+  Vpub: 0x02575483,
+  Upub: 0x024289ef,
+  zpub: 0x04b24746,
+  ypub: 0x049d7cb2,
+  vpub: 0x045f1cf6,
+  upub: 0x044a5262
+};
+
+// Re-encode an extended public key with the network's plain xpub/tpub
+// version bytes, which is what the device expects in a policy
+function normalizeExtendedKey(key: string, network: NetworkName): string {
+  const versions = bitcoinNetwork(network).bip32;
+  const slip132 = SLIP132_PUBLIC_VERSIONS[key.slice(0, 4)];
+  const node = HDKey.fromExtendedKey(key, slip132 ? { public: slip132, private: 0 } : versions);
+  if (!node.publicKey || node.privateKey) {
+    throw new Error("Expected an extended public key");
+  }
+
+  return new HDKey({
+    versions,
+    depth: node.depth,
+    index: node.index,
+    parentFingerprint: node.parentFingerprint,
+    chainCode: node.chainCode!,
+    publicKey: node.publicKey
+  }).publicExtendedKey;
+}
+
+// Parse a key expression like [f5acc2fd/48'/0'/0'/2']xpub..., accepting
+// h as the hardened marker and dropping any trailing /0/* or /<0;1>/*
+export function parseKeyExpression(expression: string, network: NetworkName): KeyInfo {
+  const match = expression
+    .trim()
+    .replace(/\/(\*\*|<0;1>\/\*|[01]\/\*)$/, '')
+    .match(/^\[([0-9a-fA-F]{8})((?:\/\d+['hH]?)*)\]([1-9A-HJ-NP-Za-km-z]+)$/);
+  if (!match) {
+    throw new Error(`Invalid key expression: ${expression.trim().slice(0, 24)}...`);
+  }
+
+  const [, fingerprint, path, key] = match;
+  return {
+    fingerprint: fingerprint.toLowerCase(),
+    path: `m${path.replace(/[hH]/g, "'")}`,
+    xpub: normalizeExtendedKey(key, network)
+  };
+}
+
+export function formatKeyExpression({ fingerprint, path, xpub }: KeyInfo): string {
+  return `[${fingerprint}/${path.replace(/^m\//, '')}]${xpub}`;
+}
+
+// Read a k-of-n sortedmulti setup exported by another coordinator: either a
+// wsh(sortedmulti(...)) descriptor or JSON carrying one, or JSON with
+// explicit threshold and keys
+export function parseMultisigImport(text: string, network: NetworkName): { threshold: number; keys: string[] } {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{')) {
+    const data = JSON.parse(trimmed);
+    if (typeof data.descriptor === 'string') {
+      return parseMultisigImport(data.descriptor, network);
+    }
+    if (Array.isArray(data.keys) && Number.isInteger(data.threshold)) {
+      return {
+        threshold: data.threshold,
+        keys: data.keys.map((key: string) => formatKeyExpression(parseKeyExpression(key, network)))
+      };
+    }
+    throw new Error("JSON must contain a descriptor, or threshold and keys");
+  }
+
+  // Receive and change descriptors may both be pasted; they share the keys
+  const descriptor = trimmed.split(/\s+/).find(line => line.startsWith('wsh(sortedmulti(')) ?? trimmed;
+  const match = descriptor.replace(/#[a-z0-9]+$/, '').match(/^wsh\(sortedmulti\((\d+),(.+)\)\)$/);
+  if (!match) {
+    throw new Error("Only wsh(sortedmulti(...)) descriptors are supported");
+  }
+
+  return {
+    threshold: Number(match[1]),
+    keys: match[2].split(',').map(key => formatKeyExpression(parseKeyExpression(key, network)))
+  };
+}
+
+export function validateMultisig(threshold: number, keyCount: number) {
+  if (keyCount < 2 || keyCount > MAX_MULTISIG_KEYS) {
+    throw new Error(`A multisig policy needs between 2 and ${MAX_MULTISIG_KEYS} keys`);
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > keyCount) {
+    throw new Error(`Threshold must be between 1 and ${keyCount}`);
+  }
+}
+
+export function validateVaultTimelock(timelock: number) {
+  if (!Number.isInteger(timelock) || timelock < 1 || timelock > MAX_VAULT_TIMELOCK) {
+    throw new Error(`Timelock must be between 1 and ${MAX_VAULT_TIMELOCK} blocks`);
+  }
+}
+
+function fillTemplate(policy: RegisteredPolicy, derivation: string): string {
+  return policy.keys.reduce(
+    (descriptor, key, i) => descriptor.replace(`@${i}/**`, `${key}${derivation}`),
+    policy.descriptorTemplate
+  );
+}
+
+// Descriptor for importing the same wallet into another coordinator
+export function policyDescriptor(policy: RegisteredPolicy): string {
+  return fillTemplate(policy, '/<0;1>/*');
+}
+
+// Separate receive and change descriptors, for backends that watch a wallet
+export function policyDescriptors(policy: RegisteredPolicy): string[] {
+  return [fillTemplate(policy, '/0/*'), fillTemplate(policy, '/1/*')];
+}
+
+export function toWalletPolicy(policy: RegisteredPolicy): WalletPolicy {
+  return new WalletPolicy(policy.name, policy.descriptorTemplate, policy.keys);
+}
+
+export interface PolicyScript {
+  witnessScript: Buffer;
+  bip32Derivation: { masterFingerprint: Buffer; pubkey: Buffer; path: string }[];
+}
+
+// Witness script and key origins for one address of a policy. Derivations
+// are listed in key order, so for a vault the primary key comes first.
+export function policyWitnessScript(
+  policy: RegisteredPolicy,
+  change: number,
+  index: number,
+  network: NetworkName
+): PolicyScript {
+  const bip32Derivation = policy.keys.map((expression) => {
+    const key = parseKeyExpression(expression, network);
+    const child = HDKey.fromExtendedKey(key.xpub, bitcoinNetwork(network).bip32).deriveChild(change).deriveChild(index);
+    if (!child.publicKey) {
+      throw new Error(`Failed to derive public key for ${change}/${index}`);
+    }
+    return {
+      masterFingerprint: Buffer.from(key.fingerprint, 'hex'),
+      pubkey: Buffer.from(child.publicKey),
+      path: `${key.path}/${change}/${index}`
+    };
+  });
+
+  const pubkeys = bip32Derivation.map(d => d.pubkey);
+  const witnessScript = policyKind(policy) === 'vault'
+    ? vaultScript(pubkeys[0], pubkeys[1], vaultTimelock(policy))
+    : sortedMultiScript(policy.threshold, pubkeys);
+  return { witnessScript, bip32Derivation };
+}
+
+export function policyAddress(policy: RegisteredPolicy, change: number, index: number, network: NetworkName): string {
+  const { witnessScript } = policyWitnessScript(policy, change, index, network);
+  const address = witnessScriptAddress(witnessScript, bitcoinNetwork(network));
+  if (!address) {
+    throw new Error(`Failed to derive address for ${change}/${index}`);
+  }
+  return address;
+}
+
+export function derivePolicyAddressRange(
+  policy: RegisteredPolicy,
+  change: 0 | 1,
+  startIndex: number,
+  count: number,
+  network: NetworkName
+): string[] {
+  return Array.from({ length: count }, (_, i) => policyAddress(policy, change, startIndex + i, network));
+}
+
+// Witness shape of a policy input for the chosen spending path. A vault's
+// primary path is a single signature; recovery adds the key and an empty
+// item to take the OP_NOTIF branch.
+export function policyInput(policy: RegisteredPolicy, spendPath: SpendPath = 'primary'): InputSpec {
+  if (policyKind(policy) === 'vault') {
+    // Script length depends only on the timelock's encoding
+    const placeholderKey = Buffer.alloc(33, 2);
+    return {
+      type: 'wsh',
+      witnessScriptLength: vaultScript(placeholderKey, placeholderKey, vaultTimelock(policy)).length,
+      witnessItems: spendPath === 'recovery' ? [72, 33, 0] : [72]
+    };
+  }
+
+  return multisigInput(policy.threshold, policy.keys.length);
+}
+
+function serializeWitness(stack: Uint8Array[]): Buffer {
+  const varint = (n: number) => n < 0xfd ? Buffer.from([n]) : Buffer.from([0xfd, n & 0xff, n >> 8]);
+  return Buffer.concat([varint(stack.length), ...stack.flatMap(item => [varint(item.length), Buffer.from(item)])]);
+}
+
+// bitcoinjs only knows how to finalize multisig; vault inputs are finalized
+// by hand with whichever path has a signature, preferring the primary key
+export function finalizePolicyPsbt(policy: RegisteredPolicy, psbt: bitcoin.Psbt) {
+  if (policyKind(policy) === 'sortedmulti') {
+    psbt.finalizeAllInputs();
+    return;
+  }
+
+  psbt.data.inputs.forEach((input, i) => {
+    const chunks = input.witnessScript && bitcoin.script.decompile(input.witnessScript);
+    if (!chunks || !(chunks[0] instanceof Uint8Array) || !(chunks[6] instanceof Uint8Array)) {
+      throw new Error(`Input ${i} is missing its witness script`);
+    }
+    const [primaryKey, recoveryHash] = [Buffer.from(chunks[0]), Buffer.from(chunks[6])];
+    const sigs = input.partialSig ?? [];
+    const primarySig = sigs.find(sig => primaryKey.equals(sig.pubkey));
+    const recoverySig = sigs.find(sig => recoveryHash.equals(bitcoin.crypto.hash160(sig.pubkey)));
+
+    let stack: Uint8Array[];
+    if (primarySig) {
+      stack = [primarySig.signature];
+    } else if (recoverySig) {
+      // An empty signature fails the primary CHECKSIG and selects the recovery branch
+      stack = [recoverySig.signature, recoverySig.pubkey, new Uint8Array(0)];
+    } else {
+      throw new Error(`Input ${i} is not signed`);
+    }
+
+    psbt.finalizeInput(i, () => ({
+      finalScriptSig: undefined,
+      finalScriptWitness: serializeWitness([...stack, input.witnessScript!])
+    }));
+  });
+}
+
+// A policy UTXO with its confirmation count at the current tip
+export interface PolicyUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  address: string;
+  addressIndex: number;
+  change: number;
+  blockHeight?: number;
+  confirmations: number;
+}
+
+// Blocks until the recovery path can spend this coin (0 = spendable now).
+// The relative timelock only starts counting once the coin confirms.
+export function timelockRemaining(policy: RegisteredPolicy, utxo: PolicyUtxo): number {
+  const timelock = vaultTimelock(policy);
+  return utxo.confirmations === 0 ? timelock : Math.max(0, timelock - utxo.confirmations);
+}
+
+// Policies are stored per device and network, keyed by master fingerprint
+export function loadPolicies(fingerprint: string, network: NetworkName): RegisteredPolicy[] {
+  try {
+    const stored = localStorage.getItem(`policies:${network}:${fingerprint}`);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to load policies", e);
+    return [];
+  }
+}
+
+export function savePolicies(fingerprint: string, network: NetworkName, policies: RegisteredPolicy[]) {
+  localStorage.setItem(`policies:${network}:${fingerprint}`, JSON.stringify(policies));
+}
+
+// Fewest signatures on any input of a policy PSBT, or null if it does not parse
+export function psbtSignatureCount(psbtBase64: string, network: NetworkName): number | null {
+  try {
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64.trim(), { network: bitcoinNetwork(network) });
+    return Math.min(...psbt.data.inputs.map(input => input.partialSig?.length ?? 0));
+  } catch (e) {
+    return null;
+  }
+}
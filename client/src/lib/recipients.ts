@@ -0,0 +1,57 @@
+// A batch payment row as text, the way the Send form holds it
+export interface RecipientRow {
+  address: string;
+  amount: string;
+  label: string;
+}
+
+// Split one CSV line. Fields may be double-quoted, with "" for a quote.
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(f => f.trim());
+}
+
+// Rows from address,amount[,label] lines with amounts in BTC. Blank lines
+// and a header line are skipped. The rows are left for the form to
+// validate; lines that are not rows at all come back as errors.
+export function parseRecipientsCsv(text: string): { rows: RecipientRow[]; errors: string[] } {
+  const rows: RecipientRow[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    const [address = '', amount = '', ...label] = splitCsvLine(line);
+    if (rows.length === 0 && errors.length === 0 && isNaN(Number(amount))) return;
+    if (!address || !amount) {
+      errors.push(`Line ${i + 1}: expected address,amount,label`);
+      return;
+    }
+    // Unquoted commas in the label are kept
+    rows.push({ address, amount, label: label.join(', ') });
+  });
+
+  return { rows, errors };
+}
@@ -0,0 +1,44 @@
+import { NetworkName } from '@shared/networks';
+import { TransactionDetails } from './discovery';
+
+// Replace-by-fee (BIP125): an unconfirmed transaction can be replaced by one
+// spending the same coins at a higher fee if any of its inputs opts in.
+
+// Highest sequence number that opts in without enabling a relative timelock
+export const RBF_SEQUENCE = 0xfffffffd;
+
+// Extra sat/vB a replacement pays, on top of the fee it displaces, for its
+// own relay
+const INCREMENTAL_RELAY_FEE = 1;
+
+export function signalsRbf(tx: TransactionDetails): boolean {
+  return tx.vin.some(input => input.sequence <= RBF_SEQUENCE);
+}
+
+// Least fee a replacement of the given size must pay to be relayed
+export function minimumReplacementFee(replacedFee: number, vsize: number): number {
+  return replacedFee + Math.ceil(INCREMENTAL_RELAY_FEE * vsize);
+}
+
+// A bump keeps the payments and raises the fee; a cancel sends everything
+// back to the wallet instead
+export type ReplacementKind = 'bump' | 'cancel';
+
+// Replacements broadcast from this wallet, keyed by the txid they replace.
+// Whichever of the two confirms, the other never will.
+export type WalletReplacements = Record<string, { txid: string; kind: ReplacementKind }>;
+
+// Stored per device and network, like labels
+export function loadReplacements(fingerprint: string, network: NetworkName): WalletReplacements {
+  try {
+    const stored = localStorage.getItem(`replacements:${network}:${fingerprint}`);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed to load replacements", e);
+    return {};
+  }
+}
+
+export function saveReplacements(fingerprint: string, network: NetworkName, replacements: WalletReplacements) {
+  localStorage.setItem(`replacements:${network}:${fingerprint}`, JSON.stringify(replacements));
+}
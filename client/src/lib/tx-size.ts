@@ -0,0 +1,107 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { NetworkName, bitcoinNetwork } from '@shared/networks';
+import { ScriptType } from '@shared/descriptors';
+
+// Transaction weight from the shape of its inputs and outputs, before any
+// signature exists. Sizes assume the largest low-S ECDSA signature (72 bytes
+// with the sighash flag) so a fee is never short; Schnorr signatures are a
+// fixed 64 bytes with the default sighash.
+
+const ECDSA_SIGNATURE = 72;
+const SCHNORR_SIGNATURE = 64;
+const COMPRESSED_PUBKEY = 33;
+
+// Outpoint (36) and sequence (4); the scriptSig length is added per input
+const INPUT_BASE = 40;
+// Version and locktime
+const TX_BASE = 8;
+// Marker and flag, counted at witness weight
+const SEGWIT_HEADER_WEIGHT = 2;
+
+// How an input is spent. P2WSH inputs give the sizes of their witness stack
+// items, without the witness script itself.
+export type InputSpec =
+  | { type: ScriptType }
+  | { type: 'wsh'; witnessScriptLength: number; witnessItems: number[] };
+
+export const OUTPUT_SCRIPT_LENGTHS: Record<ScriptType | 'wsh', number> = {
+  pkh: 25,
+  'sh(wpkh)': 23,
+  wpkh: 22,
+  tr: 34,
+  wsh: 34
+};
+
+function varIntSize(n: number): number {
+  return n < 0xfd ? 1 : n <= 0xffff ? 3 : 5;
+}
+
+function pushSize(length: number): number {
+  return (length < 0x4c ? 1 : length <= 0xff ? 2 : 3) + length;
+}
+
+function witnessSize(items: number[]): number {
+  return varIntSize(items.length) + items.reduce((sum, item) => sum + varIntSize(item) + item, 0);
+}
+
+// Non-witness bytes and witness bytes of one input
+function inputParts(input: InputSpec): { base: number; witness: number | null } {
+  const withScriptSig = (scriptSig: number) => INPUT_BASE + varIntSize(scriptSig) + scriptSig;
+
+  switch (input.type) {
+    case 'pkh':
+      return { base: withScriptSig(pushSize(ECDSA_SIGNATURE) + pushSize(COMPRESSED_PUBKEY)), witness: null };
+    case 'sh(wpkh)':
+      // The scriptSig pushes the 22-byte P2WPKH redeem script
+      return { base: withScriptSig(pushSize(22)), witness: witnessSize([ECDSA_SIGNATURE, COMPRESSED_PUBKEY]) };
+    case 'wpkh':
+      return { base: withScriptSig(0), witness: witnessSize([ECDSA_SIGNATURE, COMPRESSED_PUBKEY]) };
+    case 'tr':
+      return { base: withScriptSig(0), witness: witnessSize([SCHNORR_SIGNATURE]) };
+    case 'wsh':
+      return { base: withScriptSig(0), witness: witnessSize([...input.witnessItems, input.witnessScriptLength]) };
+  }
+}
+
+// k-of-n CHECKMULTISIG: OP_k, n pushed keys, OP_n, OP_CHECKMULTISIG. The
+// witness starts with the empty item CHECKMULTISIG pops by mistake.
+export function multisigInput(threshold: number, keyCount: number): InputSpec {
+  return {
+    type: 'wsh',
+    witnessScriptLength: 3 + keyCount * pushSize(COMPRESSED_PUBKEY),
+    witnessItems: [0, ...Array(threshold).fill(ECDSA_SIGNATURE)]
+  };
+}
+
+export function inputWeight(input: InputSpec): number {
+  const { base, witness } = inputParts(input);
+  // Inputs without a witness still take an empty stack in a segwit transaction
+  return base * 4 + (witness ?? 1);
+}
+
+// 8-byte value, script length and script
+export function outputWeight(scriptLength: number): number {
+  return (8 + varIntSize(scriptLength) + scriptLength) * 4;
+}
+
+export function outputScriptLength(address: string, network: NetworkName): number {
+  return bitcoin.address.toOutputScript(address, bitcoinNetwork(network)).length;
+}
+
+export function transactionWeight(inputs: InputSpec[], outputScriptLengths: number[]): number {
+  const parts = inputs.map(inputParts);
+  const hasWitness = parts.some(part => part.witness !== null);
+
+  const base = TX_BASE + varIntSize(inputs.length) + varIntSize(outputScriptLengths.length)
+    + parts.reduce((sum, part) => sum + part.base, 0);
+  const outputs = outputScriptLengths.reduce((sum, length) => sum + outputWeight(length), 0);
+  const witness = hasWitness
+    ? SEGWIT_HEADER_WEIGHT + parts.reduce((sum, part) => sum + (part.witness ?? 1), 0)
+    : 0;
+
+  return base * 4 + outputs + witness;
+}
+
+export function transactionVbytes(inputs: InputSpec[], outputScriptLengths: number[]): number {
+  return Math.ceil(transactionWeight(inputs, outputScriptLengths) / 4);
+}
@@ -1,9 +1,13 @@
 import { useLedger } from "@/lib/ledger-context";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { NETWORKS, NetworkName } from "@shared/networks";
 import { Loader2, Usb } from "lucide-react";
 
 export default function Connect() {
-  const { connect, status } = useLedger();
+  const { connect, status, gapLimit, setGapLimit, network, setNetwork } = useLedger();
 
   return (
     <div className="min-h-[80vh] flex flex-col items-center justify-center relative">
@@ -42,6 +46,33 @@ export default function Connect() {
           <p className="mt-2 text-xs text-muted-foreground">
             Supports Ledger Nano S, S Plus, and Nano X
           </p>
+
+          <div className="flex items-center gap-3 pt-4">
+            <Label className="text-xs text-muted-foreground">Network</Label>
+            <Select value={network} onValueChange={(value) => setNetwork(value as NetworkName)} disabled={status === 'connecting'}>
+              <SelectTrigger className="w-32 h-8 bg-zinc-950/50 border-zinc-800 text-xs" data-testid="select-network">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-950 border-zinc-800">
+                {(Object.keys(NETWORKS) as NetworkName[]).map((name) => (
+                  <SelectItem key={name} value={name} data-testid={`option-network-${name}`}>
+                    {NETWORKS[name].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Label htmlFor="gap-limit" className="text-xs text-muted-foreground">Address gap limit</Label>
+            <Input
+              id="gap-limit"
+              type="number"
+              min={1}
+              value={gapLimit}
+              onChange={(e) => setGapLimit(Number(e.target.value))}
+              disabled={status === 'connecting'}
+              className="w-20 h-8 bg-zinc-950/50 font-mono text-xs"
+              data-testid="input-gap-limit"
+            />
+          </div>
         </div>
       </div>
     </div>
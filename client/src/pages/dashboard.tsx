@@ -1,18 +1,147 @@
-import { useLedger } from "@/lib/ledger-context";
+import { useEffect, useRef, useState } from "react";
+import { useLedger, type Transaction } from "@/lib/ledger-context";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { ArrowUpRight, ArrowDownLeft } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowUpRight, ArrowDownLeft, ArrowLeftRight, Merge, Loader2, X, type LucideIcon } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { type HistoryFilter, type TransactionKind } from "@/lib/discovery";
 import { motion } from "framer-motion";
 import { Link } from "wouter";
+import { ACCOUNT_TYPES } from "@/lib/derivation";
+import { type WalletReplacements } from "@/lib/replacement";
+
+// Title, icon and amount sign for each kind of wallet transaction
+const TRANSACTION_KINDS: Record<Transaction['type'], { label: string; icon: LucideIcon; sign: string }> = {
+  received: { label: "Received Bitcoin", icon: ArrowDownLeft, sign: "+" },
+  sent: { label: "Sent Bitcoin", icon: ArrowUpRight, sign: "-" },
+  self: { label: "Internal Transfer", icon: ArrowLeftRight, sign: "" },
+  consolidation: { label: "Consolidation", icon: Merge, sign: "" },
+};
+
+function shortAddress(address: string) {
+  return address.length > 16 ? `${address.slice(0, 8)}…${address.slice(-6)}` : address;
+}
+
+// "to bc1q…" or "from bc1q…", with a count when there are several
+function counterpartyText(tx: Transaction) {
+  const [first, ...rest] = tx.counterparties;
+  if (!first || (tx.type !== 'sent' && tx.type !== 'received')) return null;
+  const more = rest.length > 0 ? ` +${rest.length}` : "";
+  return `${tx.type === 'sent' ? 'to' : 'from'} ${shortAddress(first)}${more}`;
+}
+
+// Which of a replaced payment and its replacement went through. Only one
+// can confirm; the other drops out of the wallet's history.
+function replacementBadge(tx: Transaction, replacements: WalletReplacements) {
+  const confirmed = tx.status === 'confirmed';
+  const replacedBy = replacements[tx.id];
+  if (replacedBy) {
+    if (!confirmed) return { text: "Replaced", className: "bg-zinc-700 text-zinc-300" };
+    return {
+      text: replacedBy.kind === 'cancel' ? "Cancel failed" : "Original confirmed",
+      className: "bg-red-500/20 text-red-400",
+    };
+  }
+
+  const kind = Object.values(replacements).find((replacement) => replacement.txid === tx.id)?.kind;
+  if (kind === 'cancel') {
+    return confirmed
+      ? { text: "Cancelled", className: "bg-emerald-500/20 text-emerald-400" }
+      : { text: "Cancelling", className: "bg-zinc-700 text-zinc-300" };
+  }
+  if (kind === 'bump') {
+    return { text: "Fee bumped", className: "bg-zinc-700 text-zinc-300" };
+  }
+  return null;
+}
 
 export default function Dashboard() {
-  const { btcBalance, btcPrice, transactions } = useLedger();
+  const { btcBalance, btcPrice, transactions, historyCursor, loadTransactionHistory, labels, replacements, scriptType, activeAccount } = useLedger();
   const usdBalance = btcBalance * btcPrice;
 
+  const [typeFilter, setTypeFilter] = useState<TransactionKind | "all">("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [items, setItems] = useState<Transaction[]>(transactions);
+  const [cursor, setCursor] = useState<string | null>(historyCursor);
+  const [loading, setLoading] = useState(false);
+  const [atEnd, setAtEnd] = useState(false);
+  const sentinel = useRef<HTMLDivElement>(null);
+  // Bumped whenever the list restarts, so pages for an old query are dropped
+  const query = useRef(0);
+
+  const isFiltered = typeFilter !== "all" || fromDate !== "" || toDate !== "";
+  const filter: HistoryFilter = {
+    types: typeFilter === "all" ? undefined : [typeFilter],
+    from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59`) : undefined,
+  };
+
+  const loadPage = async (from: string | null) => {
+    const current = query.current;
+    setLoading(true);
+    try {
+      const page = await loadTransactionHistory(filter, from);
+      if (current !== query.current) return;
+      // A transaction confirming between pages can be listed twice
+      setItems(prev => [...prev, ...page.transactions.filter(tx => !prev.some(p => p.id === tx.id))]);
+      setCursor(page.cursor);
+    } catch (e: any) {
+      if (current !== query.current) return;
+      toast({
+        title: "History Unavailable",
+        description: e.message || "Could not load more transactions.",
+        variant: "destructive",
+      });
+      setCursor(null);
+    } finally {
+      if (current === query.current) setLoading(false);
+    }
+  };
+
+  // Unfiltered, the list starts from the page loaded with the wallet;
+  // a filter starts a new query from the newest transaction
+  useEffect(() => {
+    query.current++;
+    setLoading(false);
+    if (!isFiltered) {
+      setItems(transactions);
+      setCursor(historyCursor);
+      return;
+    }
+    setItems([]);
+    setCursor(null);
+    loadPage(null);
+  }, [transactions, historyCursor, typeFilter, fromDate, toDate]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const node = sentinel.current;
+    if (!node) return;
+    const observer = new IntersectionObserver(([entry]) => setAtEnd(entry.isIntersecting), { rootMargin: "200px" });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (atEnd && cursor && !loading) loadPage(cursor);
+  }, [atEnd, cursor, loading]);
+
+  const clearFilters = () => {
+    setTypeFilter("all");
+    setFromDate("");
+    setToDate("");
+  };
+
   return (
     <div className="space-y-8 animate-in fade-in duration-500">
       <header>
         <h1 className="text-3xl font-bold font-display tracking-tight text-white">Dashboard</h1>
+        {activeAccount && (
+          <p className="text-muted-foreground mt-1" data-testid="text-account-name">{activeAccount.name}</p>
+        )}
       </header>
 
       {/* Balance Card */}
@@ -27,7 +156,12 @@ export default function Dashboard() {
           <CardContent className="p-8 relative z-10">
             <div className="flex flex-col gap-6">
               <div>
-                <span className="text-sm font-medium text-muted-foreground uppercase tracking-wider">Total Balance</span>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-muted-foreground uppercase tracking-wider">Total Balance</span>
+                  <span className="text-xs bg-primary/20 text-primary px-2 py-0.5 rounded-full" data-testid="text-account-type">
+                    {ACCOUNT_TYPES[scriptType].label}
+                  </span>
+                </div>
                 <div className="flex items-baseline gap-2 mt-2 select-none">
                   <h2 className="text-5xl md:text-6xl font-bold font-display tracking-tight text-white">
                     {btcBalance.toFixed(8)}
@@ -60,57 +194,127 @@ export default function Dashboard() {
 
       {/* Transactions */}
       <div className="space-y-4">
-        <h3 className="text-xl font-semibold font-display">Recent Activity</h3>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-xl font-semibold font-display">Activity</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as TransactionKind | "all")}>
+              <SelectTrigger className="w-40 bg-zinc-950/50 border-zinc-800" data-testid="select-activity-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-950 border-zinc-800">
+                <SelectItem value="all">All activity</SelectItem>
+                {(Object.keys(TRANSACTION_KINDS) as TransactionKind[]).map((kind) => (
+                  <SelectItem key={kind} value={kind}>{TRANSACTION_KINDS[kind].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-40 bg-zinc-950/50 border-zinc-800"
+              aria-label="From date"
+              data-testid="input-activity-from"
+            />
+            <Input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-40 bg-zinc-950/50 border-zinc-800"
+              aria-label="To date"
+              data-testid="input-activity-to"
+            />
+            {isFiltered && (
+              <Button variant="ghost" size="icon" onClick={clearFilters} aria-label="Clear filters" data-testid="button-clear-filters">
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
         <div className="space-y-3">
-          {transactions.length === 0 ? (
+          {items.length === 0 && !loading ? (
             <div className="py-6" data-testid="empty-activity">
               <p className="text-muted-foreground text-sm">
-                No transactions yet. Your activity will appear here once you send or receive bitcoin.
+                {isFiltered
+                  ? "No transactions match these filters."
+                  : "No transactions yet. Your activity will appear here once you send or receive bitcoin."}
               </p>
             </div>
-          ) : transactions.map((tx, i) => (
-            <motion.div
-              key={tx.id}
-              initial={{ x: -20, opacity: 0 }}
-              animate={{ x: 0, opacity: 1 }}
-              transition={{ delay: i * 0.1 }}
-            >
-              <a 
-                href={`https://mempool.space/tx/${tx.id}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="group flex items-center justify-between p-4 rounded-xl border border-white/5 bg-zinc-900/50 hover:bg-zinc-900 transition-colors cursor-pointer"
-                data-testid={`link-tx-${tx.id}`}
+          ) : items.map((tx, i) => {
+            const kind = TRANSACTION_KINDS[tx.type];
+            const counterparty = counterpartyText(tx);
+            const replacement = replacementBadge(tx, replacements);
+            return (
+              <motion.div
+                key={tx.id}
+                initial={{ x: -20, opacity: 0 }}
+                animate={{ x: 0, opacity: 1 }}
+                transition={{ delay: i < 10 ? i * 0.1 : 0 }}
               >
-                <div className="flex items-center gap-4">
-                  <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                    tx.type === 'received' 
-                      ? 'bg-emerald-500/10 text-emerald-500' 
-                      : 'bg-zinc-800 text-zinc-400'
-                  }`}>
-                    {tx.type === 'received' ? <ArrowDownLeft className="w-5 h-5" /> : <ArrowUpRight className="w-5 h-5" />}
-                  </div>
-                  <div>
-                    <div className="font-medium text-white flex items-center gap-2">
-                      {tx.type === 'received' ? 'Received Bitcoin' : 'Sent Bitcoin'}
-                      {tx.status === 'pending' && (
-                        <span className="text-[10px] uppercase bg-yellow-500/20 text-yellow-500 px-1.5 py-0.5 rounded font-bold tracking-wide">Pending</span>
+                <Link
+                  href={`/tx/${tx.id}`}
+                  className="group flex items-center justify-between p-4 rounded-xl border border-white/5 bg-zinc-900/50 hover:bg-zinc-900 transition-colors cursor-pointer"
+                  data-testid={`link-tx-${tx.id}`}
+                >
+                  <div className="flex items-center gap-4">
+                    <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                      tx.type === 'received' 
+                        ? 'bg-emerald-500/10 text-emerald-500' 
+                        : 'bg-zinc-800 text-zinc-400'
+                    }`}>
+                      <kind.icon className="w-5 h-5" />
+                    </div>
+                    <div>
+                      <div className="font-medium text-white flex items-center gap-2">
+                        {kind.label}
+                        {tx.status === 'pending' && (
+                          <span className="text-[10px] uppercase bg-yellow-500/20 text-yellow-500 px-1.5 py-0.5 rounded font-bold tracking-wide">Pending</span>
+                        )}
+                        {replacement && (
+                          <span
+                            className={`text-[10px] uppercase px-1.5 py-0.5 rounded font-bold tracking-wide ${replacement.className}`}
+                            data-testid={`badge-replacement-${tx.id}`}
+                          >
+                            {replacement.text}
+                          </span>
+                        )}
+                      </div>
+                      {labels[tx.id] && (
+                        <div className="text-sm text-zinc-300" data-testid={`text-tx-label-${tx.id}`}>{labels[tx.id]}</div>
                       )}
+                      <div className="text-xs text-muted-foreground">
+                        {tx.date.toLocaleDateString()} • {tx.date.toLocaleTimeString()}
+                        {counterparty && <span className="font-mono"> • {counterparty}</span>}
+                      </div>
                     </div>
-                    <div className="text-xs text-muted-foreground">{tx.date.toLocaleDateString()} • {tx.date.toLocaleTimeString()}</div>
                   </div>
-                </div>
-                <div className="text-right">
-                  <div className={`font-mono font-medium ${tx.type === 'received' ? 'text-emerald-400' : 'text-white'}`}>
-                    {tx.type === 'received' ? '+' : '-'}{tx.amount} BTC
-                  </div>
-                  <div className="text-xs text-muted-foreground">
-                    ${(tx.amount * btcPrice).toLocaleString()}
+                  <div className="text-right">
+                    <div className={`font-mono font-medium ${
+                      tx.type === 'received' ? 'text-emerald-400' : tx.type === 'sent' ? 'text-white' : 'text-zinc-400'
+                    }`}>
+                      {kind.sign}{tx.amount} BTC
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      ${(tx.amount * btcPrice).toLocaleString()}
+                      {tx.fee !== null && tx.fee > 0 && <> • Fee {tx.fee.toFixed(8)} BTC</>}
+                    </div>
                   </div>
-                </div>
-              </a>
-            </motion.div>
-          ))}
+                </Link>
+              </motion.div>
+            );
+          })}
+          <div ref={sentinel} />
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : cursor && (
+            <Button variant="ghost" className="w-full" onClick={() => loadPage(cursor)} data-testid="button-load-more">
+              Load older transactions
+            </Button>
+          )}
         </div>
       </div>
     </div>
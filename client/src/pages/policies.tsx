@@ -0,0 +1,616 @@
+import { useLedger } from "@/lib/ledger-context";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Users, Plus, Copy, Shield, RefreshCw, PenTool, Send, Upload, Clock, Lock, Unlock } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "@/hooks/use-toast";
+import { isValidAddress } from "@/lib/networks";
+import {
+  PolicyKind,
+  PolicyUtxo,
+  RegisteredPolicy,
+  SpendPath,
+  parseMultisigImport,
+  policyDescriptor,
+  policyKind,
+  psbtSignatureCount,
+  timelockRemaining,
+  vaultTimelock
+} from "@/lib/policies";
+
+function copyText(text: string, title: string) {
+  navigator.clipboard.writeText(text);
+  toast({ title, description: "Copied to clipboard." });
+}
+
+// Blocks come roughly every ten minutes, 144 a day
+function blocksToDays(blocks: number): string {
+  const days = blocks / 144;
+  return days < 1 ? `~${Math.ceil(blocks / 6)} hours` : `~${Math.round(days)} days`;
+}
+
+function policySummary(policy: RegisteredPolicy): string {
+  return policyKind(policy) === 'vault'
+    ? `Vault, recovery after ${vaultTimelock(policy)} blocks`
+    : `${policy.threshold}-of-${policy.keys.length} Multisig`;
+}
+
+function CreatePolicyCard({ onCreated, onCancel }: { onCreated: (id: string) => void; onCancel?: () => void }) {
+  const { registerMultisigPolicy, registerVaultPolicy, network } = useLedger();
+  const [kind, setKind] = useState<PolicyKind>("sortedmulti");
+  const [name, setName] = useState("");
+  const [threshold, setThreshold] = useState("2");
+  const [keysText, setKeysText] = useState("");
+  const [importText, setImportText] = useState("");
+  const [timelock, setTimelock] = useState("52560");
+  const [ledgerRole, setLedgerRole] = useState<SpendPath>("primary");
+  const [otherKey, setOtherKey] = useState("");
+  const [isRegistering, setIsRegistering] = useState(false);
+
+  const handleImport = () => {
+    try {
+      const imported = parseMultisigImport(importText, network);
+      setThreshold(imported.threshold.toString());
+      setKeysText(imported.keys.join("\n"));
+      setImportText("");
+    } catch (e: any) {
+      toast({
+        title: "Import Failed",
+        description: e.message || "Could not read the descriptor.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRegister = async () => {
+    setIsRegistering(true);
+    try {
+      const policy = kind === "vault"
+        ? await registerVaultPolicy(name, parseInt(timelock), ledgerRole, otherKey)
+        : await registerMultisigPolicy(name, parseInt(threshold), keysText.split(/\s+/).filter(Boolean));
+      onCreated(policy.id);
+    } catch (e) {
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  return (
+    <Card className="glass-panel border-zinc-800">
+      <CardContent className="pt-6 space-y-4">
+        <Tabs value={kind} onValueChange={(value) => setKind(value as PolicyKind)}>
+          <TabsList className="grid w-full grid-cols-2 bg-zinc-900 border border-zinc-800">
+            <TabsTrigger value="sortedmulti" data-testid="tab-policy-multisig">Multisig</TabsTrigger>
+            <TabsTrigger value="vault" data-testid="tab-policy-vault">Timelock Vault</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {kind === "sortedmulti" && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Import descriptor or JSON (optional)</label>
+            <Textarea
+              placeholder="wsh(sortedmulti(2,[f5acc2fd/48h/0h/0h/2h]xpub.../<0;1>/*,...))"
+              className="bg-zinc-950/50 font-mono text-xs min-h-[80px]"
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              data-testid="input-policy-import"
+            />
+            <Button variant="outline" size="sm" onClick={handleImport} disabled={!importText} data-testid="button-policy-import">
+              <Upload className="mr-2 h-4 w-4" /> Import
+            </Button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="col-span-2 space-y-2">
+            <label className="text-sm font-medium">Policy name</label>
+            <Input
+              placeholder="Treasury"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="bg-zinc-950/50"
+              data-testid="input-policy-name"
+            />
+          </div>
+          {kind === "sortedmulti" ? (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Threshold</label>
+              <Input
+                type="number"
+                min={1}
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                className="bg-zinc-950/50"
+                data-testid="input-policy-threshold"
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Timelock (blocks)</label>
+              <Input
+                type="number"
+                min={1}
+                value={timelock}
+                onChange={(e) => setTimelock(e.target.value)}
+                className="bg-zinc-950/50"
+                data-testid="input-policy-timelock"
+              />
+            </div>
+          )}
+        </div>
+
+        {kind === "vault" ? (
+          <>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">This Ledger holds</label>
+              <Select value={ledgerRole} onValueChange={(value) => setLedgerRole(value as SpendPath)}>
+                <SelectTrigger className="bg-zinc-950/50 border-zinc-800" data-testid="select-ledger-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-zinc-950 border-zinc-800">
+                  <SelectItem value="primary">The primary key (spends at any time)</SelectItem>
+                  <SelectItem value="recovery">The recovery key (spends after the timelock)</SelectItem>
+                </SelectContent>
+              </Select>
+              {parseInt(timelock) > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Recovery becomes possible {blocksToDays(parseInt(timelock))} after each deposit confirms.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">{ledgerRole === "primary" ? "Recovery" : "Primary"} key</label>
+              <Input
+                placeholder="[fingerprint/48'/0'/0'/2']xpub..."
+                value={otherKey}
+                onChange={(e) => setOtherKey(e.target.value)}
+                className="bg-zinc-950/50 font-mono text-xs"
+                data-testid="input-policy-other-key"
+              />
+            </div>
+          </>
+        ) : (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Co-signer keys</label>
+            <Textarea
+              placeholder="[fingerprint/48'/0'/0'/2']xpub..., one per line"
+              className="bg-zinc-950/50 font-mono text-xs min-h-[120px]"
+              value={keysText}
+              onChange={(e) => setKeysText(e.target.value)}
+              data-testid="input-policy-keys"
+            />
+            <p className="text-xs text-muted-foreground">
+              Your Ledger's own key (m/48'/…/0'/2') is added automatically unless it is already listed.
+            </p>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="outline" className="flex-1" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            className="flex-1"
+            onClick={handleRegister}
+            disabled={!name.trim() || !(kind === "vault" ? otherKey.trim() : keysText.trim()) || isRegistering}
+            data-testid="button-register-policy"
+          >
+            {isRegistering ? (
+              <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Confirm on device...</>
+            ) : (
+              <><Shield className="mr-2 h-4 w-4" /> Register on Ledger</>
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function PoliciesPage() {
+  const {
+    policies,
+    policyStates,
+    syncPolicy,
+    removePolicy,
+    verifyPolicyAddressOnDevice,
+    fetchPolicyUtxos,
+    createPolicyPsbt,
+    signPolicyPsbt,
+    broadcastPolicyPsbt,
+    btcPrice,
+    network
+  } = useLedger();
+  const [selectedId, setSelectedId] = useState(policies[0]?.id ?? "");
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  // Spend State
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState("");
+  const [feeRate, setFeeRate] = useState("10");
+  const [spendPath, setSpendPath] = useState<SpendPath>("primary");
+  const [psbt, setPsbt] = useState("");
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const [isBroadcasting, setIsBroadcasting] = useState(false);
+
+  // Coin State
+  const [utxos, setUtxos] = useState<PolicyUtxo[] | null>(null);
+
+  const policy = policies.find(p => p.id === selectedId);
+  const state = policy ? policyStates[policy.id] : undefined;
+  const isVault = policy !== undefined && policyKind(policy) === "vault";
+  const signatureCount = psbt ? psbtSignatureCount(psbt, network) : null;
+  const isComplete = policy !== undefined && signatureCount !== null && signatureCount >= policy.threshold;
+
+  const handleSync = async (id: string) => {
+    setIsSyncing(true);
+    try {
+      await syncPolicy(id);
+    } catch (e: any) {
+      console.error(e);
+      toast({
+        title: "Error",
+        description: e.message || "Failed to load policy addresses.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (policy && !state) handleSync(policy.id);
+  }, [policy?.id]);
+
+  // Reload coins and their timelock status whenever the policy is rescanned
+  useEffect(() => {
+    setUtxos(null);
+    if (!policy || !state || !isVault) return;
+    fetchPolicyUtxos(policy.id)
+      .then(setUtxos)
+      .catch((e) => console.error("Failed to load coins", e));
+  }, [policy?.id, state]);
+
+  const handleVerify = async () => {
+    if (!policy || !state) return;
+    setIsVerifying(true);
+    try {
+      await verifyPolicyAddressOnDevice(policy.id, state.receiveAddressIndex);
+    } catch (e) {
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleCreatePsbt = async () => {
+    if (!policy) return;
+    if (!isValidAddress(recipient, network)) {
+      toast({ title: "Invalid Address", description: "Enter a valid recipient address.", variant: "destructive" });
+      return;
+    }
+    setIsBuilding(true);
+    try {
+      setPsbt(await createPolicyPsbt(policy.id, parseFloat(amount), recipient, parseFloat(feeRate), spendPath));
+    } catch (e: any) {
+      toast({ title: "Could Not Build Transaction", description: e.message, variant: "destructive" });
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const handleSign = async () => {
+    if (!policy) return;
+    setIsSigning(true);
+    try {
+      setPsbt(await signPolicyPsbt(policy.id, psbt));
+      toast({ title: "Signed", description: "Your signature was added to the PSBT." });
+    } catch (e: any) {
+      toast({ title: "Signing Failed", description: e.message, variant: "destructive" });
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const handleBroadcast = async () => {
+    if (!policy) return;
+    setIsBroadcasting(true);
+    try {
+      const txid = await broadcastPolicyPsbt(policy.id, psbt);
+      setPsbt("");
+      setRecipient("");
+      setAmount("");
+      toast({ title: "Transaction Sent", description: `TXID: ${txid.slice(0, 16)}...` });
+    } catch (e: any) {
+      toast({ title: "Broadcast Failed", description: e.message, variant: "destructive" });
+    } finally {
+      setIsBroadcasting(false);
+    }
+  };
+
+  if (policies.length === 0 || isCreating) {
+    return (
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold font-display">New Wallet Policy</h1>
+          <p className="text-muted-foreground">Combine your Ledger with other keys into a multisig wallet or a timelock vault.</p>
+        </div>
+        <CreatePolicyCard
+          onCreated={(id) => {
+            setSelectedId(id);
+            setIsCreating(false);
+          }}
+          onCancel={policies.length > 0 ? () => setIsCreating(false) : undefined}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold font-display">Wallet Policies</h1>
+        <p className="text-muted-foreground">Receive to and co-sign spends from policies registered on your Ledger.</p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Select value={policy?.id} onValueChange={setSelectedId}>
+          <SelectTrigger className="bg-zinc-950/50 border-zinc-800" data-testid="select-policy">
+            <SelectValue placeholder="Select policy" />
+          </SelectTrigger>
+          <SelectContent className="bg-zinc-950 border-zinc-800">
+            {policies.map((p) => (
+              <SelectItem key={p.id} value={p.id} data-testid={`option-policy-${p.id}`}>
+                {p.name} ({policySummary(p)})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={() => setIsCreating(true)} data-testid="button-new-policy">
+          <Plus className="mr-2 h-4 w-4" /> New
+        </Button>
+      </div>
+
+      {policy && (
+        <>
+          <Card className="glass-panel border-zinc-800">
+            <CardContent className="pt-6 space-y-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="text-sm text-muted-foreground flex items-center gap-2">
+                    {isVault ? <Clock className="w-4 h-4" /> : <Users className="w-4 h-4" />} {policySummary(policy)}
+                  </div>
+                  <div className="text-3xl font-bold font-display" data-testid="text-policy-balance">
+                    {(state?.btcBalance ?? 0).toFixed(8)} BTC
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    ≈ ${((state?.btcBalance ?? 0) * btcPrice).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleSync(policy.id)} disabled={isSyncing} data-testid="button-sync-policy">
+                  <RefreshCw className={`w-4 h-4 ${isSyncing ? "animate-spin" : ""}`} />
+                </Button>
+              </div>
+
+              <div className="space-y-1">
+                {policy.keys.map((key, i) => (
+                  <div key={key} className="text-xs font-mono text-muted-foreground truncate">
+                    {isVault && <span className="text-foreground">{i === 0 ? "Primary" : "Recovery"}: </span>}
+                    {key}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => copyText(policyDescriptor(policy), "Descriptor Copied")} data-testid="button-copy-descriptor">
+                  <Copy className="mr-2 h-3 w-3" /> Copy Descriptor
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => {
+                    removePolicy(policy.id);
+                    setSelectedId(policies.find(p => p.id !== policy.id)?.id ?? "");
+                  }}
+                  data-testid="button-remove-policy"
+                >
+                  Remove
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {isVault && (
+            <Card className="glass-panel border-zinc-800">
+              <CardContent className="pt-6 space-y-3">
+                <div className="text-sm font-medium">Coins</div>
+                {utxos === null ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : utxos.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No coins in this vault yet.</p>
+                ) : (
+                  utxos.map((utxo) => {
+                    const remaining = timelockRemaining(policy, utxo);
+                    return (
+                      <div
+                        key={`${utxo.txid}:${utxo.vout}`}
+                        className="flex items-center justify-between gap-4 text-sm"
+                        data-testid={`row-utxo-${utxo.txid}-${utxo.vout}`}
+                      >
+                        <div className="min-w-0">
+                          <div className="font-mono">{(utxo.value / 100000000).toFixed(8)} BTC</div>
+                          <div className="text-xs text-muted-foreground font-mono truncate">{utxo.txid}:{utxo.vout}</div>
+                        </div>
+                        {remaining === 0 ? (
+                          <div className="flex items-center gap-1 text-xs text-amber-500 shrink-0">
+                            <Unlock className="w-3 h-3" /> Recovery key can spend
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
+                            <Lock className="w-3 h-3" />
+                            {utxo.confirmations === 0
+                              ? "Unconfirmed, timelock not started"
+                              : `${remaining} blocks left (${blocksToDays(remaining)})`}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <Tabs defaultValue="receive" className="space-y-6">
+            <TabsList className="grid w-full grid-cols-2 bg-zinc-900 border border-zinc-800">
+              <TabsTrigger value="receive">Receive</TabsTrigger>
+              <TabsTrigger value="spend">Spend</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="receive">
+              <Card className="glass-panel border-zinc-800">
+                <CardContent className="pt-6 space-y-4">
+                  {state ? (
+                    <>
+                      <div className="text-xs text-muted-foreground uppercase tracking-wider font-semibold">
+                        Multisig Address #{state.receiveAddressIndex + 1}
+                      </div>
+                      <div
+                        className="bg-zinc-950 border border-zinc-800 rounded-lg p-4 cursor-pointer hover:border-primary/50"
+                        onClick={() => copyText(state.addresses[state.receiveAddressIndex], "Address Copied")}
+                        data-testid="button-copy-policy-address"
+                      >
+                        <code className="text-sm font-mono break-all">{state.addresses[state.receiveAddressIndex]}</code>
+                      </div>
+                      <Button variant="outline" className="w-full" onClick={handleVerify} disabled={isVerifying} data-testid="button-verify-policy-address">
+                        {isVerifying ? (
+                          <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Check your Ledger...</>
+                        ) : (
+                          <><Shield className="mr-2 h-4 w-4" /> Verify on Device</>
+                        )}
+                      </Button>
+                    </>
+                  ) : (
+                    <div className="flex justify-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="spend">
+              <Card className="glass-panel border-zinc-800">
+                <CardContent className="pt-6 space-y-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Recipient address</label>
+                    <Input
+                      value={recipient}
+                      onChange={(e) => setRecipient(e.target.value)}
+                      className="bg-zinc-950/50 font-mono"
+                      data-testid="input-policy-recipient"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Amount (BTC)</label>
+                      <Input
+                        type="number"
+                        step="0.00000001"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        className="bg-zinc-950/50 font-mono"
+                        data-testid="input-policy-amount"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Fee rate (sat/vB)</label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={feeRate}
+                        onChange={(e) => setFeeRate(e.target.value)}
+                        className="bg-zinc-950/50 font-mono"
+                        data-testid="input-policy-fee-rate"
+                      />
+                    </div>
+                  </div>
+                  {isVault && (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Spending path</label>
+                      <Select value={spendPath} onValueChange={(value) => setSpendPath(value as SpendPath)}>
+                        <SelectTrigger className="bg-zinc-950/50 border-zinc-800" data-testid="select-spend-path">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-zinc-950 border-zinc-800">
+                          <SelectItem value="primary">Primary key</SelectItem>
+                          <SelectItem value="recovery">Recovery key (unlocked coins only)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={handleCreatePsbt}
+                    disabled={!state || !recipient || !amount || isBuilding}
+                    data-testid="button-create-psbt"
+                  >
+                    {isBuilding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                    Create PSBT
+                  </Button>
+
+                  <div className="space-y-2 pt-4 border-t border-zinc-800">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium">PSBT (base64)</label>
+                      {signatureCount !== null && (
+                        <span className="text-xs text-muted-foreground" data-testid="text-psbt-signatures">
+                          {Math.min(signatureCount, policy.threshold)} of {policy.threshold} signatures
+                        </span>
+                      )}
+                    </div>
+                    <Textarea
+                      placeholder="Create a PSBT above or paste one signed by a co-signer"
+                      className="bg-zinc-950/50 font-mono text-xs min-h-[120px]"
+                      value={psbt}
+                      onChange={(e) => setPsbt(e.target.value)}
+                      data-testid="input-policy-psbt"
+                    />
+                    {psbt && signatureCount === null && (
+                      <p className="text-xs text-destructive">Not a valid PSBT.</p>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-2">
+                    <Button variant="outline" onClick={() => copyText(psbt, "PSBT Copied")} disabled={signatureCount === null} data-testid="button-copy-psbt">
+                      <Copy className="mr-2 h-4 w-4" /> Copy
+                    </Button>
+                    <Button onClick={handleSign} disabled={signatureCount === null || isComplete || isSigning} data-testid="button-sign-psbt">
+                      {isSigning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PenTool className="mr-2 h-4 w-4" />}
+                      Sign
+                    </Button>
+                    <Button onClick={handleBroadcast} disabled={!isComplete || isBroadcasting} data-testid="button-broadcast-psbt">
+                      {isBroadcasting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                      Broadcast
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+}
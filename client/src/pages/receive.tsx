@@ -5,9 +5,10 @@ import { Copy, Check, Shield } from "lucide-react";
 import { QRCodeSVG } from "qrcode.react";
 import { useState } from "react";
 import { toast } from "@/hooks/use-toast";
+import { ACCOUNT_TYPES } from "@/lib/derivation";
 
 export default function ReceivePage() {
-  const { receiveAddress, receiveAddressIndex, verifyAddressOnDevice } = useLedger();
+  const { receiveAddress, receiveAddressIndex, scriptType, verifyAddressOnDevice } = useLedger();
   const [copied, setCopied] = useState(false);
   const [isVerifying, setIsVerifying] = useState(false);
 
@@ -52,7 +53,7 @@ export default function ReceivePage() {
           <div className="w-full space-y-3">
             <div className="flex items-center justify-center gap-2">
               <div className="text-xs text-muted-foreground text-center uppercase tracking-wider font-semibold">
-                Your SegWit Address
+                Your {ACCOUNT_TYPES[scriptType].label} Address
               </div>
               <div className="text-xs bg-primary/20 text-primary px-2 py-0.5 rounded-full font-mono">
                 #{receiveAddressIndex + 1}
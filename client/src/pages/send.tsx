@@ -1,58 +1,294 @@
-import { useLedger } from "@/lib/ledger-context";
+import { useLedger, type PreparedTransaction, type Recipient } from "@/lib/ledger-context";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
-import { useState } from "react";
-import { useForm } from "react-hook-form";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Label } from "@/components/ui/label";
-import { ArrowUpRight, Loader2, CheckCircle2 } from "lucide-react";
+import { ArrowUpRight, Loader2, CheckCircle2, ChevronDown, RefreshCw, AlertTriangle, Plus, Trash2, Upload } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { isValidAddress } from "@/lib/networks";
+import { NetworkName } from "@shared/networks";
+import {
+  FEE_PRESETS,
+  FeeEstimates,
+  confirmationTarget,
+  feeRateForTarget,
+  fetchFeeEstimates,
+  formatBlockTime
+} from "@/lib/fees";
+import { COIN_SELECTION_STRATEGIES, CoinSelectionStrategy, DUST_LIMIT } from "@/lib/coin-selection";
+import { type WalletUtxo } from "@/lib/discovery";
+import { coinLabel, outpointRef } from "@/lib/labels";
+import { type RecipientRow, parseRecipientsCsv } from "@/lib/recipients";
+import { isPaymentUri, parsePaymentUri } from "@/lib/bip21";
 
-const formSchema = z.object({
-  address: z.string().min(26, "Invalid Bitcoin address").regex(/^(bc1|[13])[a-zA-HJ-NP-Z0-9]{25,39}$/, "Invalid Bitcoin address format"),
-  amount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, "Amount must be greater than 0"),
+// Accepts any standard address for the selected network, including bech32m Taproot outputs
+const buildFormSchema = (network: NetworkName) => z.object({
+  recipients: z.array(z.object({
+    address: z.string().min(26, "Invalid Bitcoin address").refine((val) => isValidAddress(val, network), "Invalid Bitcoin address format"),
+    amount: z.string()
+      .refine((val) => !isNaN(Number(val)) && Number(val) > 0, "Amount must be greater than 0")
+      .refine((val) => Math.round(Number(val) * 100000000) > DUST_LIMIT, `Amount must be more than ${DUST_LIMIT} sats`),
+    label: z.string(),
+  })).min(1),
 });
 
+type FormValues = z.infer<ReturnType<typeof buildFormSchema>>;
+
+const EMPTY_ROW: RecipientRow = { address: "", amount: "", label: "" };
+
+function toRecipients(rows: RecipientRow[]): Recipient[] {
+  return rows.map((row) => ({ address: row.address.trim(), amount: Number(row.amount) || 0, label: row.label }));
+}
+
+// One spendable coin in the coin control list, with its label editable in place
+function CoinRow({ utxo, tipHeight, checked, onCheckedChange }: {
+  utxo: WalletUtxo;
+  tipHeight: number;
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}) {
+  const { labels, setLabel } = useLedger();
+  const ref = outpointRef(utxo.txid, utxo.vout);
+  const label = coinLabel(labels, utxo.txid, utxo.vout) ?? "";
+  const [labelText, setLabelText] = useState(label);
+  const confirmations = utxo.status.confirmed && utxo.status.block_height ? tipHeight - utxo.status.block_height + 1 : 0;
+
+  useEffect(() => {
+    setLabelText(label);
+  }, [label]);
+
+  const saveLabel = () => {
+    if (labelText.trim() !== label) setLabel(ref, labelText);
+  };
+
+  return (
+    <div className="flex items-start gap-3 p-3 rounded-lg bg-zinc-950/50 border border-zinc-800" data-testid={`row-coin-${ref}`}>
+      <Checkbox checked={checked} onCheckedChange={(value) => onCheckedChange(value === true)} className="mt-1" data-testid={`checkbox-coin-${ref}`} />
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="flex justify-between gap-2">
+          <code className="text-xs font-mono text-zinc-300">{utxo.txid.slice(0, 8)}…:{utxo.vout}</code>
+          <span className="font-mono text-sm text-white">{(utxo.value / 100000000).toFixed(8)} BTC</span>
+        </div>
+        <div className="flex justify-between gap-2 text-xs text-muted-foreground">
+          <span className="font-mono truncate">
+            {utxo.address.slice(0, 12)}…{utxo.address.slice(-6)} • {utxo.change ? "Change" : "Receive"} #{utxo.addressIndex}
+          </span>
+          <span className="shrink-0">
+            {confirmations > 0 ? `${confirmations} conf.` : "Unconfirmed"}
+          </span>
+        </div>
+        <Input
+          value={labelText}
+          onChange={(e) => setLabelText(e.target.value)}
+          onBlur={saveLabel}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              saveLabel();
+            }
+          }}
+          placeholder="Label"
+          className="h-7 text-xs bg-transparent border-zinc-800"
+          data-testid={`input-coin-label-${ref}`}
+        />
+      </div>
+    </div>
+  );
+}
+
 export default function SendPage() {
-  const { btcBalance, btcPrice, sendBitcoin } = useLedger();
+  const { btcBalance, btcPrice, labels, fetchUtxos, prepareSend, sendBitcoin, estimateSend, maxSendAmount, network } = useLedger();
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [prepared, setPrepared] = useState<PreparedTransaction | null>(null);
   const [isSigning, setIsSigning] = useState(false);
   const [_, setLocation] = useLocation();
+  const search = useSearch();
   const [txHash, setTxHash] = useState<string | null>(null);
   const [feeRate, setFeeRate] = useState(10);
+  const [estimates, setEstimates] = useState<FeeEstimates>({});
+  const [strategy, setStrategy] = useState<CoinSelectionStrategy>('minimize-fee');
+  const [coinList, setCoinList] = useState<WalletUtxo[] | null>(null);
+  const [tipHeight, setTipHeight] = useState(0);
+  const [isLoadingCoins, setIsLoadingCoins] = useState(false);
+  // Hand-picked coins as txid:vout; when any are picked they replace the strategy
+  const [selectedCoins, setSelectedCoins] = useState<string[]>([]);
+  const csvInput = useRef<HTMLInputElement>(null);
+  // Live estimates only move the slider until the user picks a rate
+  const feeChosen = useRef(false);
+
+  useEffect(() => {
+    const loadEstimates = async () => {
+      try {
+        const latest = await fetchFeeEstimates(network);
+        setEstimates(latest);
+        const defaultRate = feeRateForTarget(latest, FEE_PRESETS[1].target);
+        if (!feeChosen.current && defaultRate !== null) setFeeRate(defaultRate);
+      } catch (error) {
+        console.error('Failed to fetch fee estimates:', error);
+      }
+    };
+
+    loadEstimates();
+    const interval = setInterval(loadEstimates, 60000);
+    return () => clearInterval(interval);
+  }, [network]);
+
+  const loadCoins = async () => {
+    setIsLoadingCoins(true);
+    try {
+      const result = await fetchUtxos();
+      setCoinList(result.utxos);
+      setTipHeight(result.tipHeight);
+      // Coins spent since they were picked drop out of the selection
+      const unspent = new Set(result.utxos.map((utxo) => outpointRef(utxo.txid, utxo.vout)));
+      setSelectedCoins((prev) => prev.filter((ref) => unspent.has(ref)));
+    } catch (error: any) {
+      toast({
+        title: "Failed to Load Coins",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingCoins(false);
+    }
+  };
+
+  const toggleCoin = (ref: string, checked: boolean) => {
+    setSelectedCoins((prev) => (checked ? [...prev, ref] : prev.filter((r) => r !== ref)));
+  };
+
+  const chooseFeeRate = (rate: number) => {
+    feeChosen.current = true;
+    setFeeRate(rate);
+  };
+
+  const formSchema = useMemo(() => buildFormSchema(network), [network]);
 
-  const form = useForm<z.infer<typeof formSchema>>({
+  const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      address: "",
-      amount: "",
+      recipients: [EMPTY_ROW],
     },
   });
+  const { fields, append, remove, replace } = useFieldArray({ control: form.control, name: "recipients" });
+
+  const rows = form.watch("recipients");
+  const recipients = toRecipients(rows);
+  const totalAmount = recipients.reduce((sum, recipient) => sum + recipient.amount, 0);
+  const formatUsd = (btc: number) => (btc * btcPrice).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  // What is left for one row once the others are paid
+  const fillMax = (index: number) => {
+    const max = maxSendAmount(recipients.map((recipient) => recipient.address), feeRate, selectedCoins.length > 0 ? selectedCoins : undefined);
+    const others = recipients.reduce((sum, recipient, i) => (i === index ? sum : sum + recipient.amount), 0);
+    form.setValue(`recipients.${index}.amount`, Math.max(0, max - others).toFixed(8));
+  };
+
+  // Fill a row from a BIP21 link: address, amount if given, and the label
+  // and message as the row's label
+  const applyPaymentUri = (index: number, uri: string) => {
+    try {
+      const request = parsePaymentUri(uri);
+      form.setValue(`recipients.${index}.address`, request.address, { shouldValidate: true });
+      if (request.amount) {
+        form.setValue(`recipients.${index}.amount`, request.amount, { shouldValidate: true });
+      }
+      const note = [request.label, request.message].filter(Boolean).join(" — ");
+      if (note) form.setValue(`recipients.${index}.label`, note);
+    } catch (error: any) {
+      form.setValue(`recipients.${index}.address`, uri);
+      form.setError(`recipients.${index}.address`, { message: error.message });
+    }
+  };
+
+  // Links opened through the bitcoin: protocol handler arrive as ?uri=
+  useEffect(() => {
+    const uri = new URLSearchParams(search).get("uri");
+    if (!uri) return;
+    applyPaymentUri(0, uri);
+    setLocation("/send", { replace: true });
+  }, [search]);
 
-  const amountValue = form.watch("amount");
-  const usdValue = amountValue ? (Number(amountValue) * btcPrice).toLocaleString(undefined, { maximumFractionDigits: 2 }) : "0.00";
+  const handleCsvImport = async (file: File) => {
+    const { rows: imported, errors } = parseRecipientsCsv(await file.text());
+    if (imported.length === 0) {
+      toast({
+        title: "Import Failed",
+        description: errors[0] ?? "The file has no payments.",
+        variant: "destructive",
+      });
+      return;
+    }
+    replace(imported);
+    // Show problems with every row at once
+    const valid = await form.trigger("recipients");
+    toast({
+      title: `Imported ${imported.length} Recipient${imported.length === 1 ? "" : "s"}`,
+      description: errors.length > 0
+        ? `Skipped: ${errors.join("; ")}`
+        : valid ? "All rows are valid." : "Some rows need fixing before sending.",
+      variant: errors.length > 0 || !valid ? "destructive" : "default",
+    });
+  };
   
-  const estimatedVbytes = 140;
-  const feeBtc = (feeRate * estimatedVbytes) / 100000000;
+  const selectedUtxos = (coinList ?? []).filter((utxo) => selectedCoins.includes(outpointRef(utxo.txid, utxo.vout)));
+  const selectedTotal = selectedUtxos.reduce((sum, utxo) => sum + utxo.value, 0) / 100000000;
+  const coinChoice = selectedCoins.length > 0 ? selectedCoins : strategy;
+  // Spending coins together links them on-chain, so coins labelled apart
+  // (say, bought with and without KYC) should stay apart
+  const mixesLabels = new Set(selectedUtxos.map((utxo) => coinLabel(labels, utxo.txid, utxo.vout) ?? "")).size > 1;
+
+  // Sized from the coins the payment would actually spend
+  const estimate = estimateSend(recipients, feeRate, coinChoice);
+  const feeBtc = estimate?.fee ?? 0;
   const feeUsd = feeBtc * btcPrice;
 
+  const presets = FEE_PRESETS.map(preset => ({ ...preset, rate: feeRateForTarget(estimates, preset.target) }));
+  const hasEstimates = presets.some(preset => preset.rate !== null);
+  // Room above the next-block rate for when the mempool is moving fast
+  const maxFeeRate = Math.max(100, (presets[0].rate ?? 0) * 2, feeRate);
+
   const getFeeLabel = () => {
-    if (feeRate <= 5) return "Low";
-    if (feeRate <= 15) return "Medium";
-    if (feeRate <= 30) return "High";
-    return "Priority";
+    if (!hasEstimates) return "No estimates";
+    const target = confirmationTarget(estimates, feeRate);
+    return target === null ? "May not confirm soon" : `${formatBlockTime(target)} to confirm`;
   };
 
-  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+  const onSubmit = async (values: FormValues) => {
+    setIsPreparing(true);
+    try {
+      setPrepared(await prepareSend(toRecipients(values.recipients), feeRate, coinChoice));
+    } catch (error: any) {
+      toast({
+        title: "Transaction Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleSign = async () => {
+    if (!prepared) return;
     setIsSigning(true);
     try {
-      const hash = await sendBitcoin(Number(values.amount), values.address, feeRate);
+      const hash = await sendBitcoin(prepared);
       setTxHash(hash);
+      setPrepared(null);
+      setSelectedCoins([]);
+      setCoinList(null);
       toast({
         title: "Transaction Broadcasted",
         description: "Your Bitcoin has been sent successfully.",
@@ -63,6 +299,7 @@ export default function SendPage() {
         description: error.message,
         variant: "destructive",
       });
+    } finally {
       setIsSigning(false);
     }
   };
@@ -84,8 +321,7 @@ export default function SendPage() {
           <Button variant="outline" onClick={() => setLocation('/')}>Back to Dashboard</Button>
           <Button onClick={() => {
             setTxHash(null);
-            form.reset();
-            setIsSigning(false);
+            form.reset({ recipients: [EMPTY_ROW] });
           }}>Send Another</Button>
         </div>
       </div>
@@ -96,63 +332,126 @@ export default function SendPage() {
     <div className="max-w-2xl mx-auto space-y-6">
       <div className="space-y-2">
         <h1 className="text-3xl font-bold font-display">Send Bitcoin</h1>
-        <p className="text-muted-foreground">Enter recipient details and sign with your Ledger.</p>
+        <p className="text-muted-foreground">Enter recipient details, or import a batch, and sign with your Ledger.</p>
       </div>
 
       <Card className="glass-panel border-zinc-800">
         <CardContent className="pt-6">
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              <FormField
-                control={form.control}
-                name="address"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Recipient Address</FormLabel>
-                    <FormControl>
-                      <Input placeholder="bc1q..." className="bg-zinc-950/50 font-mono" {...field} data-testid="input-recipient-address" />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="amount"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Amount (BTC)</FormLabel>
-                    <div className="relative">
-                      <FormControl>
-                        <Input 
-                          placeholder="0.00" 
-                          className="bg-zinc-950/50 font-mono text-lg pl-4 pr-24" 
-                          {...field}
-                          data-testid="input-amount"
-                        />
-                      </FormControl>
-                      <div className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground bg-zinc-900 px-2 py-1 rounded">
-                        ≈ ${usdValue}
+              <div className="space-y-4">
+                {fields.map((field, index) => (
+                  <div key={field.id} className={fields.length > 1 ? "space-y-3 p-4 rounded-lg border border-zinc-800 bg-zinc-950/30" : "space-y-6"}>
+                    {fields.length > 1 && (
+                      <div className="flex justify-between items-center">
+                        <span className="text-xs text-muted-foreground uppercase tracking-wider font-semibold">Recipient {index + 1}</span>
+                        <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={() => remove(index)} data-testid={`button-remove-recipient-${index}`}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
                       </div>
-                    </div>
-                    <div className="flex justify-between text-xs text-muted-foreground mt-2">
-                      <span>Available: {btcBalance.toFixed(8)} BTC</span>
-                      <span 
-                        className="text-primary cursor-pointer hover:underline"
-                        onClick={() => {
-                          const maxAmount = Math.max(0, btcBalance - feeBtc);
-                          form.setValue("amount", maxAmount.toFixed(8));
-                        }}
-                        data-testid="button-use-max"
-                      >
-                        Use Max
-                      </span>
-                    </div>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                    )}
+                    <FormField
+                      control={form.control}
+                      name={`recipients.${index}.address`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Recipient Address</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder="bc1q... or bitcoin: link"
+                              className="bg-zinc-950/50 font-mono"
+                              {...field}
+                              onPaste={(e) => {
+                                const text = e.clipboardData.getData("text");
+                                if (!isPaymentUri(text)) return;
+                                e.preventDefault();
+                                applyPaymentUri(index, text);
+                              }}
+                              onBlur={() => {
+                                field.onBlur();
+                                if (isPaymentUri(field.value)) applyPaymentUri(index, field.value);
+                              }}
+                              data-testid={`input-recipient-address-${index}`}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name={`recipients.${index}.amount`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Amount (BTC)</FormLabel>
+                          <div className="relative">
+                            <FormControl>
+                              <Input 
+                                placeholder="0.00" 
+                                className="bg-zinc-950/50 font-mono text-lg pl-4 pr-24" 
+                                {...field}
+                                data-testid={`input-amount-${index}`}
+                              />
+                            </FormControl>
+                            <div className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground bg-zinc-900 px-2 py-1 rounded">
+                              ≈ ${formatUsd(Number(rows[index]?.amount) || 0)}
+                            </div>
+                          </div>
+                          <div className="flex justify-between text-xs text-muted-foreground mt-2">
+                            <span>
+                              {selectedCoins.length > 0
+                                ? `Selected: ${selectedTotal.toFixed(8)} BTC`
+                                : `Available: ${btcBalance.toFixed(8)} BTC`}
+                            </span>
+                            <span 
+                              className="text-primary cursor-pointer hover:underline"
+                              onClick={() => fillMax(index)}
+                              data-testid={`button-use-max-${index}`}
+                            >
+                              Use Max
+                            </span>
+                          </div>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name={`recipients.${index}.label`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Label (optional)</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Who or what this is for" className="bg-zinc-950/50" {...field} data-testid={`input-recipient-label-${index}`} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                ))}
+
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" size="sm" onClick={() => append(EMPTY_ROW)} data-testid="button-add-recipient">
+                    <Plus className="w-4 h-4 mr-2" /> Add recipient
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => csvInput.current?.click()} data-testid="button-import-csv">
+                    <Upload className="w-4 h-4 mr-2" /> Import CSV
+                  </Button>
+                  <input
+                    ref={csvInput}
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleCsvImport(file);
+                      e.target.value = "";
+                    }}
+                  />
+                </div>
+              </div>
 
               <div className="space-y-3">
                 <div className="flex justify-between items-center">
@@ -161,11 +460,29 @@ export default function SendPage() {
                 </div>
                 
                 <div className="space-y-4">
+                  {hasEstimates && (
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                      {presets.map(preset => preset.rate !== null && (
+                        <Button
+                          key={preset.target}
+                          type="button"
+                          variant={feeRate === preset.rate ? "secondary" : "outline"}
+                          className="h-auto flex-col py-2"
+                          onClick={() => chooseFeeRate(preset.rate!)}
+                          data-testid={`button-fee-preset-${preset.target}`}
+                        >
+                          <span className="text-sm font-medium">{preset.label}</span>
+                          <span className="text-xs text-muted-foreground font-mono">{preset.rate} sat/vB</span>
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+
                   <Slider
                     value={[feeRate]}
-                    onValueChange={(value) => setFeeRate(value[0])}
+                    onValueChange={(value) => chooseFeeRate(value[0])}
                     min={1}
-                    max={100}
+                    max={maxFeeRate}
                     step={1}
                     className="w-full"
                     data-testid="slider-fee-rate"
@@ -181,19 +498,116 @@ export default function SendPage() {
                       <span className="text-muted-foreground">Fee Rate</span>
                       <span className="font-mono">{feeRate} sat/vB</span>
                     </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Estimated Size</span>
+                      <span className="font-mono">
+                        {estimate ? `${estimate.vsize} vB • ${estimate.inputCount} input${estimate.inputCount === 1 ? "" : "s"}` : "—"}
+                      </span>
+                    </div>
                     <div className="flex justify-between text-sm">
                       <span className="text-muted-foreground">Estimated Fee</span>
-                      <span className="font-mono">{feeBtc.toFixed(8)} BTC <span className="text-muted-foreground">(≈ ${feeUsd.toFixed(2)})</span></span>
+                      <span className="font-mono">
+                        {estimate ? <>{feeBtc.toFixed(8)} BTC <span className="text-muted-foreground">(≈ ${feeUsd.toFixed(2)})</span></> : "—"}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-sm border-t border-zinc-800 pt-2">
+                      <span className="text-muted-foreground">
+                        Total{recipients.length > 1 ? ` (${recipients.length} recipients)` : ""}
+                      </span>
+                      <span className="font-mono" data-testid="text-send-total">
+                        {(totalAmount + feeBtc).toFixed(8)} BTC <span className="text-muted-foreground">(≈ ${formatUsd(totalAmount + feeBtc)})</span>
+                      </span>
                     </div>
                   </div>
                 </div>
               </div>
 
-              <Button type="submit" size="lg" className="w-full h-12 text-base font-medium" disabled={isSigning} data-testid="button-send">
-                {isSigning ? (
+              <div className="space-y-2">
+                <Label>Coin Selection</Label>
+                <Select value={strategy} onValueChange={(value) => setStrategy(value as CoinSelectionStrategy)} disabled={selectedCoins.length > 0}>
+                  <SelectTrigger className="bg-zinc-950/50 border-zinc-800" data-testid="select-coin-strategy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-zinc-950 border-zinc-800">
+                    {(Object.keys(COIN_SELECTION_STRATEGIES) as CoinSelectionStrategy[]).map((key) => (
+                      <SelectItem key={key} value={key}>{COIN_SELECTION_STRATEGIES[key].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {selectedCoins.length > 0
+                    ? `Spending the ${selectedCoins.length} coin${selectedCoins.length === 1 ? "" : "s"} picked below.`
+                    : COIN_SELECTION_STRATEGIES[strategy].description}
+                </p>
+              </div>
+
+              <Collapsible onOpenChange={(open) => open && coinList === null && loadCoins()}>
+                <div className="flex items-center justify-between">
+                  <CollapsibleTrigger asChild>
+                    <Button type="button" variant="ghost" size="sm" className="px-0 hover:bg-transparent group" data-testid="button-coin-control">
+                      <ChevronDown className="w-4 h-4 mr-1 transition-transform group-data-[state=open]:rotate-180" />
+                      Coin Control
+                      {selectedCoins.length > 0 && (
+                        <span className="ml-2 text-xs text-primary">{selectedCoins.length} selected</span>
+                      )}
+                    </Button>
+                  </CollapsibleTrigger>
+                  {coinList !== null && (
+                    <Button type="button" variant="ghost" size="sm" onClick={loadCoins} disabled={isLoadingCoins} data-testid="button-refresh-coins">
+                      <RefreshCw className={`w-4 h-4 ${isLoadingCoins ? "animate-spin" : ""}`} />
+                    </Button>
+                  )}
+                </div>
+                <CollapsibleContent className="space-y-2 pt-2">
+                  {coinList === null ? (
+                    <div className="flex justify-center py-4">
+                      <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : coinList.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No spendable coins.</p>
+                  ) : (
+                    <>
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>{selectedCoins.length} of {coinList.length} coins • {selectedTotal.toFixed(8)} BTC</span>
+                        {selectedCoins.length > 0 && (
+                          <button type="button" className="text-primary hover:underline" onClick={() => setSelectedCoins([])}>
+                            Clear
+                          </button>
+                        )}
+                      </div>
+                      <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+                        {coinList.map((utxo) => {
+                          const ref = outpointRef(utxo.txid, utxo.vout);
+                          return (
+                            <CoinRow
+                              key={ref}
+                              utxo={utxo}
+                              tipHeight={tipHeight}
+                              checked={selectedCoins.includes(ref)}
+                              onCheckedChange={(checked) => toggleCoin(ref, checked)}
+                            />
+                          );
+                        })}
+                      </div>
+                      {mixesLabels && (
+                        <div className="flex gap-2 text-xs text-yellow-500 bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3" data-testid="text-coin-mix-warning">
+                          <AlertTriangle className="w-4 h-4 shrink-0" />
+                          <span>
+                            The selected coins carry different labels. Spending them together links them on-chain,
+                            so keep coins from different sources (such as KYC and non-KYC) apart.
+                          </span>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </CollapsibleContent>
+              </Collapsible>
+
+              <Button type="submit" size="lg" className="w-full h-12 text-base font-medium" disabled={isPreparing} data-testid="button-send">
+                {isPreparing ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Review on Ledger...
+                    Preparing transaction...
                   </>
                 ) : (
                   <>
@@ -206,29 +620,60 @@ export default function SendPage() {
         </CardContent>
       </Card>
 
-      <Dialog open={isSigning} onOpenChange={setIsSigning}>
+      <Dialog open={prepared !== null} onOpenChange={(open) => !open && !isSigning && setPrepared(null)}>
         <DialogContent className="sm:max-w-md border-zinc-800 bg-zinc-950">
           <DialogHeader>
             <DialogTitle>Review Transaction</DialogTitle>
             <DialogDescription>
-              Please verify the transaction details on your Ledger device.
+              {isSigning
+                ? "Please verify the transaction details on your Ledger device."
+                : "Check the details below, then sign with your Ledger."}
             </DialogDescription>
           </DialogHeader>
-          <div className="flex flex-col items-center justify-center py-8 space-y-4">
-            <div className="relative w-16 h-16">
-              <div className="absolute inset-0 border-4 border-primary/30 rounded-full animate-ping" />
-              <div className="absolute inset-0 border-4 border-t-primary rounded-full animate-spin" />
-            </div>
-            <p className="text-sm text-muted-foreground text-center animate-pulse">
-              Waiting for approval...
-            </p>
-            <div className="text-center space-y-1 bg-zinc-900 p-4 rounded-lg w-full">
-              <div className="text-xs text-muted-foreground">Confirm Output</div>
-              <div className="font-mono text-sm break-all">{form.getValues().address}</div>
-              <div className="font-mono font-bold text-primary mt-2">{form.getValues().amount} BTC</div>
-              <div className="text-xs text-muted-foreground mt-2">Fee: {feeBtc.toFixed(8)} BTC</div>
+          {prepared && (
+            <div className="flex flex-col items-center justify-center py-4 space-y-4">
+              {isSigning && (
+                <>
+                  <div className="relative w-16 h-16">
+                    <div className="absolute inset-0 border-4 border-primary/30 rounded-full animate-ping" />
+                    <div className="absolute inset-0 border-4 border-t-primary rounded-full animate-spin" />
+                  </div>
+                  <p className="text-sm text-muted-foreground text-center animate-pulse">
+                    Waiting for approval...
+                  </p>
+                </>
+              )}
+              <div className="text-center space-y-1 bg-zinc-900 p-4 rounded-lg w-full">
+                <div className="text-xs text-muted-foreground">Confirm Output{prepared.recipients.length > 1 ? "s" : ""}</div>
+                <div className="max-h-60 overflow-y-auto space-y-3">
+                  {prepared.recipients.map((recipient, i) => (
+                    <div key={i}>
+                      <div className="font-mono text-sm break-all">{recipient.address}</div>
+                      <div className="font-mono font-bold text-primary">{recipient.amount.toFixed(8)} BTC</div>
+                      {recipient.label && <div className="text-xs text-zinc-400">{recipient.label}</div>}
+                    </div>
+                  ))}
+                </div>
+                {prepared.recipients.length > 1 && (
+                  <div className="font-mono text-sm text-white mt-2">Total: {prepared.amount.toFixed(8)} BTC</div>
+                )}
+                <div className="text-xs text-muted-foreground mt-2" data-testid="text-review-fee">
+                  Fee: {prepared.fee.toFixed(8)} BTC (≈ ${(prepared.fee * btcPrice).toFixed(2)})
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {prepared.feeRate.toFixed(1)} sat/vB • {prepared.vsize} vB
+                </div>
+              </div>
+              {!isSigning && (
+                <div className="flex gap-3 w-full">
+                  <Button variant="outline" className="flex-1" onClick={() => setPrepared(null)}>Cancel</Button>
+                  <Button className="flex-1" onClick={handleSign} data-testid="button-sign-ledger">
+                    Sign on Ledger <ArrowUpRight className="ml-2 h-4 w-4" />
+                  </Button>
+                </div>
+              )}
             </div>
-          </div>
+          )}
         </DialogContent>
       </Dialog>
     </div>
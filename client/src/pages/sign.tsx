@@ -6,13 +6,14 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useState } from "react";
-import { Loader2, PenTool, ShieldCheck, CheckCircle2, XCircle, Copy, Plus } from "lucide-react";
+import { Loader2, PenTool, ShieldCheck, CheckCircle2, XCircle, Copy } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { toast } from "@/hooks/use-toast";
+import { ACCOUNT_TYPES } from "@/lib/derivation";
 
 export default function SignPage() {
-  const { signMessage, addresses, generateMoreAddresses } = useLedger();
-  const [isGenerating, setIsGenerating] = useState(false);
+  const { signMessage, addresses, scriptType } = useLedger();
+  const canSignMessages = scriptType !== 'tr';
   const [activeTab, setActiveTab] = useState("message");
   
   // Message State
@@ -96,21 +97,10 @@ export default function SignPage() {
           <Card className="glass-panel border-zinc-800">
             <CardContent className="pt-6 space-y-4">
               <div className="space-y-2">
-                <label className="text-sm font-medium">Signing Address</label>
+                <label className="text-sm font-medium">Signing Address ({ACCOUNT_TYPES[scriptType].label})</label>
                 <Select 
                   value={selectedAddressIndex.toString()} 
-                  onValueChange={async (val) => {
-                    if (val === "generate-more") {
-                      setIsGenerating(true);
-                      try {
-                        await generateMoreAddresses();
-                      } finally {
-                        setIsGenerating(false);
-                      }
-                    } else {
-                      setSelectedAddressIndex(parseInt(val));
-                    }
-                  }}
+                  onValueChange={(val) => setSelectedAddressIndex(parseInt(val))}
                 >
                   <SelectTrigger className="bg-zinc-950/50 border-zinc-800 font-mono text-sm" data-testid="select-signing-address">
                     <SelectValue />
@@ -126,17 +116,6 @@ export default function SignPage() {
                         {addr}
                       </SelectItem>
                     ))}
-                    <SelectItem 
-                      value="generate-more" 
-                      className="text-center justify-center"
-                      data-testid="button-generate-more-addresses"
-                    >
-                      {isGenerating ? (
-                        <Loader2 className="h-4 w-4 animate-spin mx-auto" />
-                      ) : (
-                        <Plus className="h-4 w-4 mx-auto" />
-                      )}
-                    </SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -185,14 +164,21 @@ export default function SignPage() {
                   </Button>
                 </div>
               ) : (
-                <Button 
-                  className="w-full" 
-                  onClick={handleSignMessage}
-                  disabled={!message}
-                  data-testid="button-sign-message"
-                >
-                  <PenTool className="mr-2 h-4 w-4" /> Sign Message
-                </Button>
+                <>
+                  {!canSignMessages && (
+                    <p className="text-xs text-muted-foreground" data-testid="text-taproot-signing-unsupported">
+                      Message signing is not available for Taproot addresses. Switch to a Native SegWit account to sign.
+                    </p>
+                  )}
+                  <Button 
+                    className="w-full" 
+                    onClick={handleSignMessage}
+                    disabled={!message || !canSignMessages}
+                    data-testid="button-sign-message"
+                  >
+                    <PenTool className="mr-2 h-4 w-4" /> Sign Message
+                  </Button>
+                </>
               )}
             </CardContent>
           </Card>
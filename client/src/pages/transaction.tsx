@@ -0,0 +1,369 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useLedger } from "@/lib/ledger-context";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, Copy, Download, ExternalLink, FastForward, FileCode, Loader2, Undo2, Zap } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { type TransactionDetails, type TxOutputDetails, fetchTransaction } from "@/lib/discovery";
+import { apiUrl } from "@/lib/networks";
+import { type ReplacementKind, signalsRbf } from "@/lib/replacement";
+import FeeBumpDialog from "@/components/fee-bump-dialog";
+import { explorerTxUrl } from "@shared/networks";
+
+const REPLACE_ACTIONS: Record<ReplacementKind, { title: string; description: string }> = {
+  bump: {
+    title: "Bump Fee",
+    description: "Replace this payment with one paying a higher fee. Recipients get the same amounts.",
+  },
+  cancel: {
+    title: "Cancel Payment",
+    description: "Send these coins back to your own wallet at a higher fee. This only works if it confirms before the original.",
+  },
+};
+
+function copyText(text: string, title: string) {
+  navigator.clipboard.writeText(text);
+  toast({ title, description: "Copied to clipboard." });
+}
+
+function formatBtc(sats: number) {
+  return (sats / 100000000).toFixed(8);
+}
+
+function formatUsd(value: number) {
+  return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function Detail({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-muted-foreground uppercase tracking-wider font-semibold">{label}</div>
+      <div className="text-sm text-white font-mono">{children}</div>
+    </div>
+  );
+}
+
+// One input or output: the address (or raw script), its value, and whose it
+// is. Inputs whose previous output is unknown show the outpoint instead.
+function OutputRow({ output, fallback, origin, testId }: {
+  output: TxOutputDetails | undefined;
+  fallback?: string;
+  origin: string | null;
+  testId: string;
+}) {
+  return (
+    <div className="flex items-start justify-between gap-4 p-3 rounded-lg bg-zinc-950/50 border border-zinc-800" data-testid={testId}>
+      <div className="min-w-0 space-y-1">
+        <code className="block text-xs font-mono text-zinc-300 break-all">
+          {output ? output.address ?? output.scriptPubKey : fallback}
+        </code>
+        {origin ? (
+          <div className="text-xs text-primary font-mono">Yours • {origin}</div>
+        ) : (
+          <div className="text-xs text-muted-foreground">External</div>
+        )}
+      </div>
+      <div className="font-mono text-sm text-white shrink-0">
+        {output ? `${formatBtc(output.value)} BTC` : "—"}
+      </div>
+    </div>
+  );
+}
+
+export default function TransactionPage() {
+  const { txid = "" } = useParams<{ txid: string }>();
+  const { network, btcPrice, labels, setLabel, addressOrigin, prepareBumpFee, prepareCancel, prepareCpfp, replacements } = useLedger();
+  const [_, setLocation] = useLocation();
+  const [tx, setTx] = useState<TransactionDetails | null>(null);
+  const [tipHeight, setTipHeight] = useState(0);
+  const [error, setError] = useState("");
+  const [historicalPrice, setHistoricalPrice] = useState<number | null>(null);
+  const [labelText, setLabelText] = useState(labels[txid] ?? "");
+  const [replacing, setReplacing] = useState<ReplacementKind | null>(null);
+  const [speedingUp, setSpeedingUp] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setTx(null);
+    setError("");
+    fetchTransaction(txid, network)
+      .then((result) => {
+        if (cancelled) return;
+        setTx(result.tx);
+        setTipHeight(result.tipHeight);
+      })
+      .catch((e: any) => {
+        if (!cancelled) setError(e.message || "Could not load transaction.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [txid, network]);
+
+  // Confirmed transactions are valued at the price on the day they were mined
+  const blockTime = tx?.status.blockTime;
+  useEffect(() => {
+    setHistoricalPrice(null);
+    if (!blockTime) return;
+    fetch(`/api/btc-price/history?time=${blockTime}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setHistoricalPrice(data?.price ?? null))
+      .catch((error) => console.error("Failed to fetch historical price:", error));
+  }, [blockTime]);
+
+  useEffect(() => {
+    setLabelText(labels[txid] ?? "");
+  }, [labels, txid]);
+
+  const fetchHex = async () => {
+    const response = await fetch(apiUrl(`/api/tx/${txid}/hex`, network));
+    if (!response.ok) throw new Error("Failed to fetch transaction hex");
+    const { hex } = await response.json();
+    return hex as string;
+  };
+
+  const handleCopyHex = async () => {
+    try {
+      copyText(await fetchHex(), "Transaction Hex Copied");
+    } catch (e: any) {
+      toast({ title: "Export Failed", description: e.message, variant: "destructive" });
+    }
+  };
+
+  const handleDownloadHex = async () => {
+    try {
+      const blob = new Blob([await fetchHex()], { type: "text/plain" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${txid}.hex`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      toast({ title: "Export Failed", description: e.message, variant: "destructive" });
+    }
+  };
+
+  const handleSaveLabel = () => {
+    setLabel(txid, labelText);
+    toast({ title: labelText.trim() ? "Label Saved" : "Label Removed", description: `Transaction ${txid.slice(0, 8)}…` });
+  };
+
+  const explorerUrl = explorerTxUrl(network, txid);
+  const replacedBy = replacements[txid];
+  const replaces = Object.keys(replacements).find((original) => replacements[original].txid === txid);
+
+  const header = (
+    <header className="space-y-2">
+      <Link href="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-white transition-colors">
+        <ArrowLeft className="w-4 h-4" /> Back to activity
+      </Link>
+      <h1 className="text-3xl font-bold font-display tracking-tight text-white">Transaction</h1>
+      <button
+        className="block text-left text-xs font-mono text-muted-foreground break-all hover:text-white transition-colors"
+        onClick={() => copyText(txid, "Transaction ID Copied")}
+        data-testid="button-copy-txid"
+      >
+        {txid}
+      </button>
+      {replacedBy && (
+        <p className="text-sm text-muted-foreground" data-testid="text-replaced-by">
+          {replacedBy.kind === "cancel" ? "Cancelled" : "Replaced"} by{" "}
+          <Link href={`/tx/${replacedBy.txid}`} className="font-mono text-primary hover:underline">{replacedBy.txid.slice(0, 16)}…</Link>
+        </p>
+      )}
+      {replaces && (
+        <p className="text-sm text-muted-foreground" data-testid="text-replaces">
+          {replacements[replaces].kind === "cancel" ? "Cancels" : "Replaces"}{" "}
+          <Link href={`/tx/${replaces}`} className="font-mono text-primary hover:underline">{replaces.slice(0, 16)}…</Link>
+        </p>
+      )}
+    </header>
+  );
+
+  if (!tx) {
+    return (
+      <div className="max-w-3xl mx-auto space-y-6">
+        {header}
+        {error ? (
+          <p className="text-sm text-destructive" data-testid="text-tx-error">{error}</p>
+        ) : (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const isCoinbase = tx.vin.length > 0 && !tx.vin[0].prevout && /^0{64}$/.test(tx.vin[0].txid);
+  const feeKnown = isCoinbase || tx.vin.every((input) => input.prevout);
+  const vsize = Math.ceil(tx.weight / 4);
+  const replaceable = signalsRbf(tx);
+  const confirmations = tx.status.confirmed && tx.status.blockHeight ? tipHeight - tx.status.blockHeight + 1 : 0;
+
+  const inputOrigins = tx.vin.map((input) => (input.prevout?.address ? addressOrigin(input.prevout.address) : null));
+  const outputOrigins = tx.vout.map((output) => (output.address ? addressOrigin(output.address) : null));
+  const spent = tx.vin.reduce((sum, input, i) => sum + (inputOrigins[i] ? input.prevout!.value : 0), 0);
+  const received = tx.vout.reduce((sum, output, i) => sum + (outputOrigins[i] ? output.value : 0), 0);
+  const net = received - spent;
+  const netBtc = net / 100000000;
+  // Only payments this wallet funded alone can be replaced
+  const canReplace = !tx.status.confirmed && replaceable && net < 0 && inputOrigins.every((origin) => origin !== null);
+  // Anything else still pending that pays us can be pulled along by a child
+  const canSpeedUp = !tx.status.confirmed && !canReplace && feeKnown && outputOrigins.some((origin) => origin !== null);
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6 animate-in fade-in duration-500">
+      {header}
+
+      <Card className="glass-panel border-zinc-800">
+        <CardContent className="p-6 space-y-6">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <div className="text-xs text-muted-foreground uppercase tracking-wider font-semibold">Effect on wallet</div>
+              <div className={`text-3xl font-bold font-display mt-1 ${net > 0 ? 'text-emerald-400' : 'text-white'}`} data-testid="text-tx-net">
+                {net > 0 ? "+" : ""}{netBtc.toFixed(8)} BTC
+              </div>
+              <div className="text-sm text-zinc-400 mt-1">
+                {historicalPrice !== null && (
+                  <span data-testid="text-tx-historical-value">
+                    ${formatUsd(netBtc * historicalPrice)} when confirmed •{" "}
+                  </span>
+                )}
+                ${formatUsd(netBtc * btcPrice)} now
+              </div>
+            </div>
+            {tx.status.confirmed ? (
+              <span className="text-xs uppercase bg-emerald-500/20 text-emerald-400 px-2 py-1 rounded font-bold tracking-wide">
+                {confirmations} confirmation{confirmations === 1 ? "" : "s"}
+              </span>
+            ) : (
+              <span className="text-xs uppercase bg-yellow-500/20 text-yellow-500 px-2 py-1 rounded font-bold tracking-wide">Pending</span>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <Detail label="Block">
+              {tx.status.confirmed ? tx.status.blockHeight : "Mempool"}
+            </Detail>
+            <Detail label="Time">
+              {tx.status.blockTime ? new Date(tx.status.blockTime * 1000).toLocaleString() : "Unconfirmed"}
+            </Detail>
+            <Detail label="Fee">
+              {isCoinbase ? "Coinbase" : feeKnown ? `${tx.fee.toLocaleString()} sats` : "Unknown"}
+            </Detail>
+            <Detail label="Fee rate">
+              {!isCoinbase && feeKnown ? `${(tx.fee / vsize).toFixed(1)} sat/vB` : "—"}
+            </Detail>
+            <Detail label="Size">
+              {vsize.toLocaleString()} vB • {tx.weight.toLocaleString()} WU
+            </Detail>
+            <Detail label="Replace-by-fee">
+              {replaceable ? "Signalled" : "Not signalled"}
+            </Detail>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider font-semibold">Label</div>
+            <div className="flex gap-2">
+              <Input
+                value={labelText}
+                onChange={(e) => setLabelText(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSaveLabel()}
+                placeholder="Add a note for this transaction"
+                className="bg-zinc-950/50 border-zinc-800"
+                data-testid="input-tx-label"
+              />
+              <Button variant="secondary" onClick={handleSaveLabel} disabled={labelText.trim() === (labels[txid] ?? "")} data-testid="button-save-label">
+                Save
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {canReplace && (
+              <>
+                <Button size="sm" onClick={() => setReplacing("bump")} data-testid="button-bump-fee">
+                  <Zap className="w-4 h-4 mr-2" /> Bump fee
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setReplacing("cancel")} data-testid="button-cancel-tx">
+                  <Undo2 className="w-4 h-4 mr-2" /> Cancel
+                </Button>
+              </>
+            )}
+            {canSpeedUp && (
+              <Button size="sm" onClick={() => setSpeedingUp(true)} data-testid="button-cpfp">
+                <FastForward className="w-4 h-4 mr-2" /> Speed up
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={handleCopyHex} data-testid="button-copy-hex">
+              <FileCode className="w-4 h-4 mr-2" /> Copy hex
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDownloadHex} data-testid="button-download-hex">
+              <Download className="w-4 h-4 mr-2" /> Download hex
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => copyText(txid, "Transaction ID Copied")}>
+              <Copy className="w-4 h-4 mr-2" /> Copy txid
+            </Button>
+            {explorerUrl && (
+              <a href={explorerUrl} target="_blank" rel="noopener noreferrer">
+                <Button variant="ghost" size="sm" data-testid="link-tx-explorer">
+                  <ExternalLink className="w-4 h-4 mr-2" /> View in explorer
+                </Button>
+              </a>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold font-display">Inputs ({tx.vin.length})</h3>
+          {tx.vin.map((input, i) => (
+            <OutputRow
+              key={`${input.txid}:${input.vout}`}
+              output={input.prevout}
+              fallback={isCoinbase ? "Coinbase" : `${input.txid}:${input.vout}`}
+              origin={inputOrigins[i]}
+              testId={`row-tx-input-${i}`}
+            />
+          ))}
+        </div>
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold font-display">Outputs ({tx.vout.length})</h3>
+          {tx.vout.map((output, i) => (
+            <OutputRow key={i} output={output} origin={outputOrigins[i]} testId={`row-tx-output-${i}`} />
+          ))}
+        </div>
+      </div>
+
+      {canReplace && (
+        <FeeBumpDialog
+          open={replacing !== null}
+          onOpenChange={(open) => !open && setReplacing(null)}
+          title={REPLACE_ACTIONS[replacing ?? "bump"].title}
+          description={REPLACE_ACTIONS[replacing ?? "bump"].description}
+          minFeeRate={Math.floor(tx.fee / vsize) + 1}
+          prepare={(feeRate) => (replacing === "cancel" ? prepareCancel(txid, feeRate) : prepareBumpFee(txid, feeRate))}
+          onSent={(replacement) => setLocation(`/tx/${replacement}`)}
+        />
+      )}
+
+      {canSpeedUp && (
+        <FeeBumpDialog
+          open={speedingUp}
+          onOpenChange={setSpeedingUp}
+          title="Speed Up"
+          description={`Spend what this transaction pays you back to your wallet, paying enough fee for both. It pays ${(tx.fee / vsize).toFixed(1)} sat/vB now.`}
+          rateLabel="Combined fee rate"
+          minFeeRate={Math.floor(tx.fee / vsize) + 1}
+          prepare={(feeRate) => prepareCpfp(txid, feeRate)}
+          onSent={(child) => setLocation(`/tx/${child}`)}
+        />
+      )}
+    </div>
+  );
+}
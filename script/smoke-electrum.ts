@@ -0,0 +1,228 @@
+// Smoke check for the Electrum client and backend against a stub server on
+// a local port. Run with `npm run smoke:electrum`; exits non-zero on failure.
+import assert from "node:assert/strict";
+import net from "net";
+import { createHash } from "crypto";
+import * as bitcoin from "bitcoinjs-lib";
+import { ElectrumBackend, ElectrumClient, ElectrumError } from "../server/chain/electrum";
+import { BroadcastRejectedError } from "../server/chain/types";
+
+const network = bitcoin.networks.regtest;
+const TIP_HEIGHT = 110;
+
+function p2wpkh(pubkeyHex: string) {
+  const { address, output } = bitcoin.payments.p2wpkh({ pubkey: Buffer.from(pubkeyHex, "hex"), network });
+  return { address: address!, output: output! };
+}
+
+// Input hash for spending an output of prev
+function spending(prev: bitcoin.Transaction): Buffer {
+  return Buffer.from(prev.getId(), "hex").reverse();
+}
+
+function scriptHash(script: Uint8Array): string {
+  return createHash("sha256").update(script).digest().reverse().toString("hex");
+}
+
+// The wallet's address, and someone else's
+const ours = p2wpkh("0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798");
+const theirs = p2wpkh("02c6047f9441ed7d6d3045406e95c07cd85c778e4b8cef3ca7abac09b95c709ee5");
+
+// coinbase -> theirs (x2); fund: theirs -> ours (block 101); sweep: ours ->
+// theirs (block 105); incoming: theirs -> ours (mempool)
+const coinbase = new bitcoin.Transaction();
+coinbase.addInput(Buffer.alloc(32), 0xffffffff);
+coinbase.addOutput(theirs.output, BigInt(51000));
+coinbase.addOutput(theirs.output, BigInt(30000));
+
+const fund = new bitcoin.Transaction();
+fund.version = 2;
+fund.addInput(spending(coinbase), 0);
+fund.addOutput(ours.output, BigInt(50000));
+
+const sweep = new bitcoin.Transaction();
+sweep.version = 2;
+sweep.addInput(spending(fund), 0);
+sweep.addOutput(theirs.output, BigInt(49000));
+
+const incoming = new bitcoin.Transaction();
+incoming.version = 2;
+incoming.addInput(spending(coinbase), 1, 0xfffffffd);
+incoming.addOutput(ours.output, BigInt(29000));
+
+const transactions = new Map([coinbase, fund, sweep, incoming].map((tx) => [tx.getId(), tx]));
+
+// Only the wallet's script is indexed, so the sweep can only be found
+// through the script it spends, and the coinbase not at all
+const histories = new Map([
+  [
+    scriptHash(ours.output),
+    [
+      { tx_hash: fund.getId(), height: 101 },
+      { tx_hash: sweep.getId(), height: 105 },
+      { tx_hash: incoming.getId(), height: 0 },
+    ],
+  ],
+]);
+
+const header = Buffer.alloc(80);
+header.writeUInt32LE(1700000000, 68);
+
+const received: string[] = [];
+
+function answer(method: string, params: any[]): { result?: unknown; error?: { code: number; message: string } } {
+  switch (method) {
+    case "server.version":
+      return { result: ["stub", "1.4"] };
+    case "echo":
+      return { result: params[0] };
+    case "blockchain.scripthash.get_history":
+      return { result: histories.get(params[0]) ?? [] };
+    case "blockchain.scripthash.get_balance":
+      return {
+        result: { confirmed: 0, unconfirmed: params[0] === scriptHash(ours.output) ? 29000 : 0 },
+      };
+    case "blockchain.scripthash.listunspent":
+      if (params[0] !== scriptHash(ours.output)) return { result: [] };
+      return { result: [{ tx_hash: incoming.getId(), tx_pos: 0, height: 0, value: 29000 }] };
+    case "blockchain.transaction.get": {
+      const tx = transactions.get(params[0]);
+      if (!tx) return { error: { code: 2, message: "missing transaction" } };
+      // Verbose answers as bitcoind would; the coinbase has 10 confirmations
+      if (params[1] === true) return { result: { hex: tx.toHex(), confirmations: tx === coinbase ? 10 : 0 } };
+      return { result: tx.toHex() };
+    }
+    case "blockchain.block.header":
+      return { result: header.toString("hex") };
+    case "blockchain.headers.subscribe":
+      return { result: { height: TIP_HEIGHT, hex: header.toString("hex") } };
+    case "blockchain.estimatefee":
+      // BTC/kB; nothing for the longest targets
+      return { result: params[0] >= 144 ? -1 : 0.0001 };
+    case "blockchain.transaction.broadcast":
+      return { error: { code: 1, message: "bad-txns-inputs-missingorspent" } };
+    default:
+      return { error: { code: -32601, message: `unknown method ${method}` } };
+  }
+}
+
+// Newline-delimited JSON-RPC. Echo requests are held until three have
+// arrived and then answered in reverse order in a single write, with a
+// notification in front; every write is split mid-message.
+function startServer(): Promise<net.Server> {
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let held: string[] = [];
+    let writing = Promise.resolve();
+    const write = (text: string) => {
+      const middle = Math.floor(text.length / 2);
+      writing = writing.then(
+        () =>
+          new Promise<void>((resolve) => {
+            socket.write(text.slice(0, middle));
+            setTimeout(() => {
+              socket.write(text.slice(middle));
+              resolve();
+            }, 5);
+          })
+      );
+    };
+
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) >= 0) {
+        const { id, method, params } = JSON.parse(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+        received.push(method);
+
+        const reply = JSON.stringify({ jsonrpc: "2.0", id, ...answer(method, params) }) + "\n";
+        if (method !== "echo") {
+          write(reply);
+          continue;
+        }
+        held.push(reply);
+        if (held.length === 3) {
+          const notification = JSON.stringify({
+            jsonrpc: "2.0",
+            method: "blockchain.headers.subscribe",
+            params: [{ height: TIP_HEIGHT + 1 }],
+          });
+          write([notification, ...held.reverse()].join("\n") + "\n");
+          held = [];
+        }
+      }
+    });
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+async function checkClient(url: URL) {
+  const client = new ElectrumClient(url);
+
+  // Responses are matched to requests by id, whatever order they come in
+  const echoes = await Promise.all(["a", "b", "c"].map((value) => client.request<string>("echo", [value])));
+  assert.deepEqual(echoes, ["a", "b", "c"]);
+  assert.equal(received[0], "server.version", "the handshake goes first");
+
+  // Error replies reject with ElectrumError and leave the connection usable
+  await assert.rejects(client.request("no.such.method"), ElectrumError);
+  assert.equal((await client.request<{ height: number }>("blockchain.headers.subscribe")).height, TIP_HEIGHT);
+}
+
+async function checkBackend(url: URL) {
+  const backend = new ElectrumBackend(url.href, network);
+
+  const history = await backend.getAddressTxs(ours.address);
+  assert.deepEqual(
+    history.map((tx) => tx.txid),
+    [incoming.getId(), sweep.getId(), fund.getId()],
+    "mempool first, then newest confirmed"
+  );
+  assert.deepEqual(history[0].status, { confirmed: false });
+  assert.deepEqual(history[1].status, { confirmed: true, blockHeight: 105, blockTime: 1700000000 });
+  assert.equal(history[1].fee, 1000);
+  assert.equal(history[2].vin[0].prevout?.address, theirs.address);
+
+  const stats = await backend.getAddressStats(ours.address);
+  assert.deepEqual(stats, { confirmedBalance: 0, unconfirmedBalance: 29000, txCount: 3 });
+
+  const utxos = await backend.getUtxos(ours.address);
+  assert.deepEqual(utxos, [{ txid: incoming.getId(), vout: 0, value: 29000, status: { confirmed: false } }]);
+
+  // Heights by txid: from an output's history, a spent script's history,
+  // the verbose transaction, or pending when none of them know it
+  assert.equal((await backend.getTx(fund.getId()))?.status.blockHeight, 101);
+  assert.equal((await backend.getTx(sweep.getId()))?.status.blockHeight, 105);
+  assert.equal((await backend.getTx(coinbase.getId()))?.status.blockHeight, TIP_HEIGHT - 10 + 1);
+  assert.deepEqual((await backend.getTx(incoming.getId()))?.status, { confirmed: false });
+
+  assert.equal(await backend.getTx("cc".repeat(32)), null);
+  assert.equal(await backend.getTxHex("cc".repeat(32)), null);
+  assert.equal(await backend.getTxHex(fund.getId()), fund.toHex());
+
+  assert.equal(await backend.getTipHeight(), TIP_HEIGHT);
+  const estimates = await backend.getFeeEstimates();
+  assert.equal(estimates[1], 10);
+  assert.equal(estimates[144], undefined);
+
+  await assert.rejects(backend.broadcast("00"), BroadcastRejectedError);
+}
+
+async function main() {
+  const server = await startServer();
+  const { port } = server.address() as net.AddressInfo;
+  const url = new URL(`tcp://127.0.0.1:${port}`);
+
+  await checkClient(url);
+  await checkBackend(url);
+  console.log("electrum smoke check passed");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,384 @@
+import net from "net";
+import tls from "tls";
+import { createHash } from "crypto";
+import * as bitcoin from "bitcoinjs-lib";
+import {
+  type AddressStats,
+  type ChainBackend,
+  type ChainTx,
+  type FeeEstimates,
+  type TxOutput,
+  type TxStatus,
+  type Utxo,
+  BroadcastRejectedError,
+  FEE_ESTIMATE_TARGETS,
+} from "./types";
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Esplora pages confirmed history 25 transactions at a time; history is
+// paged the same way so both backends behave alike
+const CONFIRMED_HISTORY_PAGE = 25;
+
+// Raw transactions never change, so previous outputs are looked up once
+const TX_CACHE_SIZE = 5000;
+
+// An error returned by the Electrum server, as opposed to a transport failure
+export class ElectrumError extends Error {}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Newline-delimited JSON-RPC over TCP or TLS. Connects on first use and
+// reconnects on the next request after the server drops the connection.
+export class ElectrumClient {
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private buffer = "";
+
+  // url is tcp://host:port or ssl://host:port
+  constructor(private url: URL, private rejectUnauthorized = true) {}
+
+  async request<T = any>(method: string, params: unknown[] = []): Promise<T> {
+    return this.send(await this.connect(), method, params);
+  }
+
+  private async connect(): Promise<net.Socket> {
+    if (this.socket) return this.socket;
+    this.connecting ??= this.open().finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  private open(): Promise<net.Socket> {
+    const host = this.url.hostname;
+    const port = Number(this.url.port);
+    const secure = this.url.protocol === "ssl:" || this.url.protocol === "tls:";
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host, rejectUnauthorized: this.rejectUnauthorized })
+        : net.connect({ host, port });
+      socket.setEncoding("utf8");
+      socket.setKeepAlive(true);
+
+      socket.once(secure ? "secureConnect" : "connect", () => {
+        this.socket = socket;
+        // The version handshake must be the first message on a connection
+        this.send(socket, "server.version", ["ledger-btc", "1.4"]).catch((err) =>
+          console.error("Electrum handshake failed:", err.message)
+        );
+        resolve(socket);
+      });
+      socket.on("data", (chunk: string) => this.onData(chunk));
+      socket.on("error", (err) => {
+        reject(err);
+        this.close(socket, err);
+      });
+      socket.on("close", () => this.close(socket, new Error("Electrum connection closed")));
+    });
+  }
+
+  private send(socket: net.Socket, method: string, params: unknown[]): Promise<any> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Electrum ${method} timed out`));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(id, { resolve, reject, timer });
+      socket.write(JSON.stringify({ jsonrpc: "2.0", id, method, params }) + "\n");
+    });
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\n")) >= 0) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (!line) continue;
+
+      let message: any;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        console.error("Electrum sent invalid JSON:", line.slice(0, 100));
+        continue;
+      }
+
+      // Subscription notifications carry no id and are not needed here
+      const pending = message.id != null ? this.pending.get(message.id) : undefined;
+      if (!pending) continue;
+
+      this.pending.delete(message.id);
+      clearTimeout(pending.timer);
+      if (message.error) {
+        pending.reject(new ElectrumError(message.error.message ?? JSON.stringify(message.error)));
+      } else {
+        pending.resolve(message.result);
+      }
+    }
+  }
+
+  private close(socket: net.Socket, error: Error) {
+    socket.destroy();
+    if (this.socket !== socket) return;
+
+    this.socket = null;
+    this.buffer = "";
+    this.pending.forEach((pending) => {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    });
+    this.pending.clear();
+  }
+}
+
+interface HistoryItem {
+  tx_hash: string;
+  // 0 or -1 for mempool transactions
+  height: number;
+}
+
+interface UnspentItem {
+  tx_hash: string;
+  tx_pos: number;
+  height: number;
+  value: number;
+}
+
+function outputScriptHash(script: Uint8Array): string {
+  return createHash("sha256").update(script).digest().reverse().toString("hex");
+}
+
+// Electrum protocol (electrs, Fulcrum, ElectrumX). Addresses are looked up
+// by script hash, and transaction details are decoded from raw hex.
+export class ElectrumBackend implements ChainBackend {
+  private client: ElectrumClient;
+  private txCache = new Map<string, string>();
+  private blockTimes = new Map<number, number>();
+
+  constructor(url: string, private network: bitcoin.Network, rejectUnauthorized = true) {
+    this.client = new ElectrumClient(new URL(url), rejectUnauthorized);
+  }
+
+  // sha256 of the output script, byte-reversed, as the protocol expects
+  private scriptHash(address: string): string {
+    return outputScriptHash(bitcoin.address.toOutputScript(address, this.network));
+  }
+
+  private async rawTx(txid: string): Promise<string> {
+    const cached = this.txCache.get(txid);
+    if (cached) return cached;
+
+    const hex = await this.client.request<string>("blockchain.transaction.get", [txid]);
+    if (this.txCache.size >= TX_CACHE_SIZE) {
+      this.txCache.delete(this.txCache.keys().next().value!);
+    }
+    this.txCache.set(txid, hex);
+    return hex;
+  }
+
+  // Block timestamp read from the 80-byte header (bytes 68-71, little endian)
+  private async blockTime(height: number): Promise<number> {
+    const cached = this.blockTimes.get(height);
+    if (cached) return cached;
+
+    const header = await this.client.request<string>("blockchain.block.header", [height]);
+    const time = Buffer.from(header, "hex").readUInt32LE(68);
+    this.blockTimes.set(height, time);
+    return time;
+  }
+
+  private async status(height: number): Promise<TxStatus> {
+    if (height <= 0) return { confirmed: false };
+    return { confirmed: true, blockHeight: height, blockTime: await this.blockTime(height) };
+  }
+
+  // Servers backed by bitcoind answer the verbose form with a confirmation
+  // count; electrs does not support it, and the transaction counts as pending
+  private async heightFromVerboseTx(txid: string): Promise<number> {
+    try {
+      const verbose = await this.client.request<{ confirmations?: number }>("blockchain.transaction.get", [
+        txid,
+        true,
+      ]);
+      if (!verbose.confirmations) return 0;
+      return (await this.getTipHeight()) - verbose.confirmations + 1;
+    } catch (error) {
+      if (error instanceof ElectrumError) return 0;
+      throw error;
+    }
+  }
+
+  private toOutput(output: { script: Uint8Array; value: bigint | number }): TxOutput {
+    let address: string | undefined;
+    try {
+      address = bitcoin.address.fromOutputScript(output.script, this.network);
+    } catch {
+      // OP_RETURN and non-standard scripts have no address
+    }
+    return {
+      scriptPubKey: Buffer.from(output.script).toString("hex"),
+      address,
+      value: Number(output.value),
+    };
+  }
+
+  private async decodeTx(txid: string, height: number): Promise<ChainTx> {
+    const tx = bitcoin.Transaction.fromHex(await this.rawTx(txid));
+
+    const vin = await Promise.all(
+      tx.ins.map(async (input) => {
+        const prevTxid = Buffer.from(input.hash).reverse().toString("hex");
+        const prevout = tx.isCoinbase()
+          ? undefined
+          : this.toOutput(bitcoin.Transaction.fromHex(await this.rawTx(prevTxid)).outs[input.index]);
+        return { txid: prevTxid, vout: input.index, sequence: input.sequence, prevout };
+      })
+    );
+    const vout = tx.outs.map((output) => this.toOutput(output));
+
+    const inputTotal = vin.reduce((sum, input) => sum + (input.prevout?.value ?? 0), 0);
+    const outputTotal = vout.reduce((sum, output) => sum + output.value, 0);
+
+    return {
+      txid,
+      version: tx.version,
+      locktime: tx.locktime,
+      size: tx.byteLength(),
+      weight: tx.weight(),
+      fee: tx.isCoinbase() ? 0 : inputTotal - outputTotal,
+      vin,
+      vout,
+      status: await this.status(height),
+    };
+  }
+
+  async getAddressStats(address: string): Promise<AddressStats> {
+    const scriptHash = this.scriptHash(address);
+    const [balance, history] = await Promise.all([
+      this.client.request<{ confirmed: number; unconfirmed: number }>("blockchain.scripthash.get_balance", [scriptHash]),
+      this.client.request<HistoryItem[]>("blockchain.scripthash.get_history", [scriptHash]),
+    ]);
+    return {
+      confirmedBalance: balance.confirmed,
+      unconfirmedBalance: balance.unconfirmed,
+      txCount: history.length,
+    };
+  }
+
+  async getAddressTxs(address: string, lastSeenTxid?: string): Promise<ChainTx[]> {
+    const history = await this.client.request<HistoryItem[]>("blockchain.scripthash.get_history", [
+      this.scriptHash(address),
+    ]);
+
+    // History comes oldest first with mempool entries at the end
+    const mempool = history.filter((item) => item.height <= 0);
+    const confirmed = history.filter((item) => item.height > 0).sort((a, b) => b.height - a.height);
+
+    let page: HistoryItem[];
+    if (lastSeenTxid === undefined) {
+      page = [...mempool, ...confirmed.slice(0, CONFIRMED_HISTORY_PAGE)];
+    } else {
+      const start = confirmed.findIndex((item) => item.tx_hash === lastSeenTxid) + 1;
+      page = start > 0 ? confirmed.slice(start, start + CONFIRMED_HISTORY_PAGE) : [];
+    }
+
+    return Promise.all(page.map((item) => this.decodeTx(item.tx_hash, item.height)));
+  }
+
+  async getUtxos(address: string): Promise<Utxo[]> {
+    const unspent = await this.client.request<UnspentItem[]>("blockchain.scripthash.listunspent", [
+      this.scriptHash(address),
+    ]);
+    return Promise.all(
+      unspent.map(async (item) => ({
+        txid: item.tx_hash,
+        vout: item.tx_pos,
+        value: item.value,
+        status: await this.status(item.height),
+      }))
+    );
+  }
+
+  async getTx(txid: string): Promise<ChainTx | null> {
+    let tx: bitcoin.Transaction;
+    try {
+      tx = bitcoin.Transaction.fromHex(await this.rawTx(txid));
+    } catch (error) {
+      if (error instanceof ElectrumError) return null;
+      throw error;
+    }
+
+    // The protocol has no height lookup by txid, but the transaction shows up
+    // in the history of every script it pays or spends. Unspendable outputs
+    // are not indexed, so the spent scripts are tried after the outputs.
+    const scripts = tx.outs.map((output) => output.script);
+    if (!tx.isCoinbase()) {
+      for (const input of tx.ins) {
+        const prevTxid = Buffer.from(input.hash).reverse().toString("hex");
+        scripts.push(bitcoin.Transaction.fromHex(await this.rawTx(prevTxid)).outs[input.index].script);
+      }
+    }
+
+    let height: number | null = null;
+    for (const script of scripts) {
+      const history = await this.client.request<HistoryItem[]>("blockchain.scripthash.get_history", [
+        outputScriptHash(script),
+      ]);
+      const item = history.find((entry) => entry.tx_hash === txid);
+      if (item) {
+        height = item.height;
+        break;
+      }
+    }
+    if (height === null) height = await this.heightFromVerboseTx(txid);
+    return this.decodeTx(txid, height);
+  }
+
+  async getTxHex(txid: string): Promise<string | null> {
+    try {
+      return await this.rawTx(txid);
+    } catch (error) {
+      if (error instanceof ElectrumError) return null;
+      throw error;
+    }
+  }
+
+  async getTipHeight(): Promise<number> {
+    const tip = await this.client.request<{ height: number }>("blockchain.headers.subscribe");
+    return tip.height;
+  }
+
+  // blockchain.estimatefee answers in BTC/kB, or -1 without enough data
+  async getFeeEstimates(): Promise<FeeEstimates> {
+    const rates = await Promise.all(
+      FEE_ESTIMATE_TARGETS.map((target) => this.client.request<number>("blockchain.estimatefee", [target]))
+    );
+    const estimates: FeeEstimates = {};
+    FEE_ESTIMATE_TARGETS.forEach((target, i) => {
+      if (rates[i] > 0) estimates[target] = (rates[i] * 100000000) / 1000;
+    });
+    return estimates;
+  }
+
+  async broadcast(txHex: string): Promise<string> {
+    try {
+      return await this.client.request<string>("blockchain.transaction.broadcast", [txHex]);
+    } catch (error) {
+      if (error instanceof ElectrumError) {
+        throw new BroadcastRejectedError(error.message);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import {
+  type AddressStats,
+  type ChainBackend,
+  type ChainTx,
+  type FeeEstimates,
+  type TxOutput,
+  type TxStatus,
+  type Utxo,
+  BroadcastRejectedError,
+} from "./types";
+
+function toStatus(status: any): TxStatus {
+  return {
+    confirmed: status?.confirmed === true,
+    blockHeight: status?.block_height,
+    blockTime: status?.block_time,
+  };
+}
+
+function toOutput(output: any): TxOutput {
+  return {
+    scriptPubKey: output.scriptpubkey,
+    address: output.scriptpubkey_address,
+    value: output.value,
+  };
+}
+
+function toChainTx(tx: any): ChainTx {
+  return {
+    txid: tx.txid,
+    version: tx.version,
+    locktime: tx.locktime,
+    size: tx.size,
+    weight: tx.weight,
+    fee: tx.fee,
+    vin: tx.vin.map((input: any) => ({
+      txid: input.txid,
+      vout: input.vout,
+      sequence: input.sequence,
+      prevout: input.prevout ? toOutput(input.prevout) : undefined,
+    })),
+    vout: tx.vout.map(toOutput),
+    status: toStatus(tx.status),
+  };
+}
+
+// Esplora REST API, as served by blockstream.info, mempool.space or a
+// self-hosted electrs
+export class EsploraBackend implements ChainBackend {
+  constructor(private baseUrl: string) {}
+
+  private async getJson(path: string): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`);
+    if (!response.ok) {
+      throw new Error(`Esplora ${path} failed: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async getAddressStats(address: string): Promise<AddressStats> {
+    const data = await this.getJson(`/address/${address}`);
+    return {
+      confirmedBalance: data.chain_stats.funded_txo_sum - data.chain_stats.spent_txo_sum,
+      unconfirmedBalance: data.mempool_stats.funded_txo_sum - data.mempool_stats.spent_txo_sum,
+      txCount: data.chain_stats.tx_count + data.mempool_stats.tx_count,
+    };
+  }
+
+  async getAddressTxs(address: string, lastSeenTxid?: string): Promise<ChainTx[]> {
+    const txs = await this.getJson(
+      lastSeenTxid ? `/address/${address}/txs/chain/${lastSeenTxid}` : `/address/${address}/txs`
+    );
+    return txs.map(toChainTx);
+  }
+
+  async getUtxos(address: string): Promise<Utxo[]> {
+    const utxos = await this.getJson(`/address/${address}/utxo`);
+    return utxos.map((utxo: any) => ({
+      txid: utxo.txid,
+      vout: utxo.vout,
+      value: utxo.value,
+      status: toStatus(utxo.status),
+    }));
+  }
+
+  async getTx(txid: string): Promise<ChainTx | null> {
+    const response = await fetch(`${this.baseUrl}/tx/${txid}`);
+    return response.ok ? toChainTx(await response.json()) : null;
+  }
+
+  async getTxHex(txid: string): Promise<string | null> {
+    const response = await fetch(`${this.baseUrl}/tx/${txid}/hex`);
+    return response.ok ? response.text() : null;
+  }
+
+  async getTipHeight(): Promise<number> {
+    const response = await fetch(`${this.baseUrl}/blocks/tip/height`);
+    if (!response.ok) {
+      throw new Error(`Esplora tip height failed: ${response.status}`);
+    }
+    return Number(await response.text());
+  }
+
+  async getFeeEstimates(): Promise<FeeEstimates> {
+    const data: Record<string, number> = await this.getJson("/fee-estimates");
+    return Object.fromEntries(Object.entries(data).map(([target, rate]) => [Number(target), rate]));
+  }
+
+  async broadcast(txHex: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/tx`, {
+      method: "POST",
+      body: txHex,
+      headers: { "Content-Type": "text/plain" },
+    });
+
+    // Esplora answers 400 when the node rejects the transaction; anything
+    // else (rate limits, gateway timeouts) is the server's problem
+    if (response.status === 400) {
+      const errorText = await response.text();
+      throw new BroadcastRejectedError(errorText || "Broadcast failed");
+    }
+    if (!response.ok) {
+      throw new Error(`Esplora broadcast failed: ${response.status}`);
+    }
+
+    return response.text();
+  }
+}
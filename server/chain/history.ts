@@ -0,0 +1,249 @@
+import { type ChainBackend, type ChainTx } from "./types";
+import { type Limiter } from "./limit";
+
+// How a transaction moved the wallet's coins. Internal transfers and
+// consolidations spend and pay only the wallet's own addresses; a
+// consolidation merges several coins into one.
+export type TransactionKind = "received" | "sent" | "self" | "consolidation";
+
+// Net effect of one transaction on the wallet as a whole, so a payment with
+// change counts once rather than once per address it touches
+export interface WalletTransaction {
+  txid: string;
+  type: TransactionKind;
+  // Paid to others when sending, gained when receiving, otherwise the total
+  // moved between own addresses
+  amount: number;
+  // Change in wallet balance, negative when coins left the wallet (fee included)
+  net: number;
+  // Fee paid by this wallet; null when it did not fund every input
+  fee: number | null;
+  // Foreign addresses paid when sending, or paying us when receiving
+  counterparties: string[];
+  date: string;
+  status: "confirmed" | "pending";
+}
+
+export interface HistoryFilter {
+  types?: TransactionKind[];
+  // Unix times; either bound may be left open
+  from?: number;
+  to?: number;
+}
+
+export interface HistoryPage {
+  transactions: WalletTransaction[];
+  // Opaque position for the next page, or null at the end of history
+  cursor: string | null;
+}
+
+// Where paging stopped for one address: the last confirmed transaction
+// returned from it, and whether its history has been used up
+interface AddressPosition {
+  address: string;
+  lastSeen: string | null;
+  exhausted: boolean;
+}
+
+// Pages are cut at block boundaries. `before` is the rank of the last block
+// returned; the next page starts below it.
+export interface HistoryCursor {
+  before: number | null;
+  positions: AddressPosition[];
+}
+
+// Backend requests one page may make. A narrow filter over a long history
+// returns what it found so far, with a cursor to carry on from.
+const MAX_FETCHES_PER_PAGE = 100;
+
+// Unconfirmed transactions sort above every block
+const UNCONFIRMED_RANK = Number.MAX_SAFE_INTEGER;
+
+function rank(tx: ChainTx): number {
+  return tx.status.confirmed ? tx.status.blockHeight ?? 0 : UNCONFIRMED_RANK;
+}
+
+export function walletTransaction(tx: ChainTx, ownAddresses: Set<string>): WalletTransaction {
+  const isOwn = (address?: string) => address !== undefined && ownAddresses.has(address);
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  const ownInputs = tx.vin.filter((input) => isOwn(input.prevout?.address));
+  const foreignInputs = tx.vin.filter((input) => !isOwn(input.prevout?.address));
+  const ownOutputs = tx.vout.filter((output) => isOwn(output.address));
+  const foreignOutputs = tx.vout.filter((output) => !isOwn(output.address));
+
+  const spent = sum(ownInputs.map((input) => input.prevout!.value));
+  const received = sum(ownOutputs.map((output) => output.value));
+  const net = received - spent;
+  const fundedAll = foreignInputs.length === 0 && !!tx.vin.length;
+
+  let type: TransactionKind;
+  if (fundedAll && foreignOutputs.length === 0) {
+    type = tx.vin.length > 1 && tx.vout.length === 1 ? "consolidation" : "self";
+  } else {
+    // Transactions with inputs from both sides (payjoin, coinjoin) go by net effect
+    type = net >= 0 ? "received" : "sent";
+  }
+
+  const amount =
+    type === "sent" ? sum(foreignOutputs.map((output) => output.value))
+    : type === "received" ? net
+    : received;
+
+  const counterparties =
+    type === "sent" ? foreignOutputs.map((output) => output.address)
+    : type === "received" ? foreignInputs.map((input) => input.prevout?.address)
+    : [];
+
+  const txTime = tx.status.blockTime || Math.floor(Date.now() / 1000);
+
+  return {
+    txid: tx.txid,
+    type,
+    amount,
+    net,
+    fee: fundedAll ? tx.fee : null,
+    counterparties: Array.from(new Set(counterparties.filter((address): address is string => !!address))),
+    date: new Date(txTime * 1000).toISOString(),
+    status: tx.status.confirmed ? "confirmed" : "pending",
+  };
+}
+
+function matches(tx: WalletTransaction, filter: HistoryFilter): boolean {
+  const time = Date.parse(tx.date) / 1000;
+  return (
+    (!filter.types || filter.types.includes(tx.type)) &&
+    (filter.from === undefined || time >= filter.from) &&
+    (filter.to === undefined || time <= filter.to)
+  );
+}
+
+// Start of history for a wallet's used addresses
+export function initialCursor(addresses: string[]): HistoryCursor {
+  return {
+    before: null,
+    positions: addresses.map((address) => ({ address, lastSeen: null, exhausted: false })),
+  };
+}
+
+function encodeCursor(cursor: HistoryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// Throws on anything that is not a cursor this module produced
+export function decodeCursor(value: string): HistoryCursor {
+  const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  if (
+    !cursor ||
+    !(cursor.before === null || Number.isInteger(cursor.before)) ||
+    !Array.isArray(cursor.positions) ||
+    !cursor.positions.every(
+      (position: any) =>
+        typeof position?.address === "string" &&
+        (position.lastSeen === null || /^[0-9a-f]{64}$/.test(position.lastSeen)) &&
+        typeof position.exhausted === "boolean"
+    )
+  ) {
+    throw new Error("Invalid history cursor");
+  }
+  return cursor;
+}
+
+// Merge the histories of a wallet's addresses, newest first, into pages of
+// at least `limit` matching transactions. Each address is paged through the
+// backend only as far as needed, and a block is always returned whole so
+// the cursor can resume below it.
+export async function historyPage(
+  backend: ChainBackend,
+  cursor: HistoryCursor,
+  limit: number,
+  filter: HistoryFilter,
+  limiter: Limiter
+): Promise<HistoryPage> {
+  const before = cursor.before ?? Infinity;
+  const ownAddresses = new Set(cursor.positions.map((position) => position.address));
+  const states = cursor.positions.map((position) => ({
+    ...position,
+    // Paging position in the backend, ahead of lastSeen by whatever is buffered
+    fetchedUpTo: position.lastSeen,
+    buffer: [] as ChainTx[],
+  }));
+
+  let fetches = 0;
+  const fetchMore = async (state: (typeof states)[number]) => {
+    fetches++;
+    const page = await limiter(() => backend.getAddressTxs(state.address, state.fetchedUpTo ?? undefined));
+    const confirmed = page.filter((tx) => tx.status.confirmed);
+    if (confirmed.length === 0) {
+      state.exhausted = true;
+    } else {
+      state.fetchedUpTo = confirmed[confirmed.length - 1].txid;
+    }
+    // Earlier pages already returned everything at or above `before`
+    state.buffer.push(...page.filter((tx) => rank(tx) < before));
+  };
+
+  const transactions: WalletTransaction[] = [];
+  const returned = new Set<string>();
+  let lastRank = cursor.before;
+  let finished = false;
+
+  while (transactions.length < limit) {
+    await Promise.all(states.filter((state) => state.buffer.length === 0 && !state.exhausted).map(fetchMore));
+
+    const heads = states.filter((state) => state.buffer.length > 0);
+    if (heads.length === 0) {
+      finished = true;
+      break;
+    }
+    const top = Math.max(...heads.map((state) => rank(state.buffer[0])));
+
+    // Every address must have all of this block buffered before it is returned
+    await Promise.all(
+      states.map(async (state) => {
+        while (!state.exhausted && state.buffer.length > 0 && rank(state.buffer[state.buffer.length - 1]) === top) {
+          await fetchMore(state);
+        }
+      })
+    );
+
+    const block: ChainTx[] = [];
+    for (const state of states) {
+      while (state.buffer.length > 0 && rank(state.buffer[0]) === top) {
+        const tx = state.buffer.shift()!;
+        if (tx.status.confirmed) state.lastSeen = tx.txid;
+        // A transaction touching several of our addresses is listed by each
+        if (!returned.has(tx.txid)) {
+          returned.add(tx.txid);
+          block.push(tx);
+        }
+      }
+    }
+    lastRank = top;
+
+    const walletTxs = block.map((tx) => walletTransaction(tx, ownAddresses));
+    transactions.push(...walletTxs.filter((tx) => matches(tx, filter)));
+
+    // History only gets older from here
+    const blockTime = block[0].status.blockTime;
+    if (filter.from !== undefined && blockTime !== undefined && blockTime < filter.from) {
+      finished = true;
+      break;
+    }
+    if (fetches >= MAX_FETCHES_PER_PAGE) break;
+  }
+
+  return {
+    transactions,
+    cursor: finished
+      ? null
+      : encodeCursor({
+          before: lastRank,
+          positions: states.map(({ address, lastSeen, exhausted, buffer }) => ({
+            address,
+            lastSeen,
+            exhausted: exhausted && buffer.length === 0,
+          })),
+        }),
+  };
+}
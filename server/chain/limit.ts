@@ -0,0 +1,26 @@
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+// Run at most `concurrency` tasks at once, starting queued ones in order
+export function createLimiter(concurrency: number): Limiter {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  return async (task) => {
+    if (active >= concurrency) {
+      // The finishing task hands its slot straight to this one
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
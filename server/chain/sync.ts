@@ -0,0 +1,152 @@
+import { type AddressStats, type ChainBackend, type Utxo } from "./types";
+import { type WalletTransaction, historyPage, initialCursor } from "./history";
+import { type Limiter, createLimiter } from "./limit";
+
+// Most backend requests a single sync keeps in flight. Public Esplora
+// instances rate limit aggressively, and a node's RPC queue is small.
+const SYNC_CONCURRENCY = 8;
+
+export const MAX_GAP_LIMIT = 1000;
+export const MAX_KNOWN_ADDRESSES = 10000;
+
+// Transactions returned with a sync; the rest come from /api/wallet/history
+const SYNC_HISTORY_LIMIT = 25;
+
+// Where a wallet's addresses come from. Ranged chains are scanned until
+// `gapLimit` consecutive unused addresses; fixed lists are checked as given.
+export type SyncChain =
+  | { change: number; descriptor: string; derive: (index: number) => string; known: number }
+  | { change: number; addresses: string[] };
+
+export interface ChainSummary {
+  // Addresses checked, always ending in a gap on ranged chains
+  scanned: number;
+  used: number[];
+  // First index that has never been used
+  nextIndex: number;
+}
+
+export interface WalletUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  status: { confirmed: boolean; block_height?: number; block_time?: number };
+  address: string;
+  addressIndex: number;
+  change: number;
+}
+
+// All amounts are in satoshis
+export interface WalletSyncResult {
+  balance: { confirmed: number; unconfirmed: number };
+  // First page of history, newest first
+  transactions: WalletTransaction[];
+  historyCursor: string | null;
+  utxos: WalletUtxo[];
+  chains: { receive: ChainSummary; change: ChainSummary };
+}
+
+interface ScannedAddress {
+  address: string;
+  index: number;
+  change: number;
+  stats: AddressStats;
+}
+
+async function scanChain(backend: ChainBackend, chain: SyncChain, gapLimit: number, limit: Limiter): Promise<ScannedAddress[]> {
+  const check = (addresses: string[], startIndex: number) =>
+    Promise.all(
+      addresses.map(async (address, i) => ({
+        address,
+        index: startIndex + i,
+        change: chain.change,
+        stats: await limit(() => backend.getAddressStats(address)),
+      }))
+    );
+
+  if ("addresses" in chain) {
+    return check(chain.addresses, 0);
+  }
+
+  // Backends that watch only imported descriptors are asked to cover each
+  // stretch before it is checked
+  const checkRange = async (start: number, count: number) => {
+    if (count === 0) return [];
+    await backend.importDescriptors?.([chain.descriptor], start + count - 1);
+    return check(Array.from({ length: count }, (_, i) => chain.derive(start + i)), start);
+  };
+
+  // Addresses already handed out are always checked, even past the gap
+  const results = await checkRange(0, chain.known);
+  const trailingGap = () => {
+    let gap = 0;
+    for (let i = results.length - 1; i >= 0 && results[i].stats.txCount === 0; i--) {
+      gap++;
+    }
+    return gap;
+  };
+
+  let gap = trailingGap();
+  while (gap < gapLimit) {
+    results.push(...(await checkRange(results.length, gapLimit - gap)));
+    gap = trailingGap();
+  }
+  return results;
+}
+
+function summarize(scanned: ScannedAddress[]): ChainSummary {
+  const used = scanned.filter((entry) => entry.stats.txCount > 0).map((entry) => entry.index);
+  const firstUnused = scanned.find((entry) => entry.stats.txCount === 0);
+  return {
+    scanned: scanned.length,
+    used,
+    nextIndex: firstUnused ? firstUnused.index : scanned.length,
+  };
+}
+
+// Scan every chain of a wallet and aggregate balance, history and UTXOs.
+// Only addresses with history are asked for transactions and UTXOs.
+export async function syncWallet(backend: ChainBackend, chains: SyncChain[], gapLimit: number): Promise<WalletSyncResult> {
+  const limit = createLimiter(SYNC_CONCURRENCY);
+
+  const scans = await Promise.all(chains.map((chain) => scanChain(backend, chain, gapLimit, limit)));
+  const scanned = scans.flat();
+  const used = scanned.filter((entry) => entry.stats.txCount > 0);
+
+  const [history, details] = await Promise.all([
+    historyPage(backend, initialCursor(used.map((entry) => entry.address)), SYNC_HISTORY_LIMIT, {}, limit),
+    Promise.all(used.map(async (entry) => ({ entry, utxos: await limit(() => backend.getUtxos(entry.address)) }))),
+  ]);
+
+  const utxos = details.flatMap(({ entry, utxos: addressUtxos }) =>
+    addressUtxos.map((utxo: Utxo) => ({
+      txid: utxo.txid,
+      vout: utxo.vout,
+      value: utxo.value,
+      status: {
+        confirmed: utxo.status.confirmed,
+        block_height: utxo.status.blockHeight,
+        block_time: utxo.status.blockTime,
+      },
+      address: entry.address,
+      addressIndex: entry.index,
+      change: entry.change,
+    }))
+  );
+
+  const chainScan = (change: number) => scans.find((_, i) => chains[i].change === change) ?? [];
+
+  return {
+    balance: {
+      confirmed: scanned.reduce((sum, entry) => sum + entry.stats.confirmedBalance, 0),
+      unconfirmed: scanned.reduce((sum, entry) => sum + entry.stats.unconfirmedBalance, 0),
+    },
+    transactions: history.transactions,
+    historyCursor: history.cursor,
+    utxos,
+    chains: {
+      receive: summarize(chainScan(0)),
+      change: summarize(chainScan(1)),
+    },
+  };
+}
@@ -0,0 +1,80 @@
+// Chain data in a backend-neutral shape. All amounts are in satoshis.
+
+export interface AddressStats {
+  confirmedBalance: number;
+  unconfirmedBalance: number;
+  txCount: number;
+}
+
+export interface TxStatus {
+  confirmed: boolean;
+  blockHeight?: number;
+  blockTime?: number;
+}
+
+export interface TxInput {
+  txid: string;
+  vout: number;
+  sequence: number;
+  // The output being spent; absent for coinbase inputs
+  prevout?: TxOutput;
+}
+
+export interface TxOutput {
+  scriptPubKey: string;
+  address?: string;
+  value: number;
+}
+
+export interface ChainTx {
+  txid: string;
+  version: number;
+  locktime: number;
+  size: number;
+  weight: number;
+  fee: number;
+  vin: TxInput[];
+  vout: TxOutput[];
+  status: TxStatus;
+}
+
+export interface Utxo {
+  txid: string;
+  vout: number;
+  value: number;
+  status: TxStatus;
+}
+
+// Fee rate in sat/vB expected to confirm within each number of blocks.
+// Backends fill in whichever targets they have data for.
+export type FeeEstimates = Record<number, number>;
+
+// Confirmation targets asked of backends that estimate one target at a time
+export const FEE_ESTIMATE_TARGETS = [1, 2, 3, 6, 12, 24, 144, 504, 1008];
+
+// The node rejected a transaction, as opposed to the backend being unreachable
+export class BroadcastRejectedError extends Error {}
+
+// Source of chain data for one network. Routes only talk to this interface,
+// so Esplora, Electrum or a local node can be swapped in by configuration.
+export interface ChainBackend {
+  getAddressStats(address: string): Promise<AddressStats>;
+  // Most recent transactions first: unconfirmed ones plus the first page of
+  // confirmed history. Passing the last confirmed txid of a page returns the
+  // next page of confirmed history; an empty page means there is no more.
+  getAddressTxs(address: string, lastSeenTxid?: string): Promise<ChainTx[]>;
+  getUtxos(address: string): Promise<Utxo[]>;
+  // Decoded transaction with its previous outputs; null if unknown
+  getTx(txid: string): Promise<ChainTx | null>;
+  // null if the transaction is unknown to the backend
+  getTxHex(txid: string): Promise<string | null>;
+  getTipHeight(): Promise<number>;
+  // Empty when the backend has too little data (fresh nodes, regtest)
+  getFeeEstimates(): Promise<FeeEstimates>;
+  // Resolves to the txid; throws BroadcastRejectedError if the node refuses it
+  broadcast(txHex: string): Promise<string>;
+  // Backends that index only what they are told to watch (a node's wallet)
+  // need the account's ranged output descriptors before they can answer,
+  // covering at least indexes 0 to rangeEnd (a default range if omitted)
+  importDescriptors?(descriptors: string[], rangeEnd?: number): Promise<void>;
+}
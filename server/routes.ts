@@ -1,7 +1,116 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import bitcoinMessage from "bitcoinjs-message";
+import * as bitcoin from "bitcoinjs-lib";
+import { type NetworkName, bitcoinNetwork, isNetworkName } from "@shared/networks";
+import { parseDescriptor } from "@shared/descriptors";
+import {
+  type ChainBackend,
+  type FeeEstimates,
+  type HistoryCursor,
+  type HistoryFilter,
+  type SyncChain,
+  type TransactionKind,
+  BroadcastRejectedError,
+  MAX_GAP_LIMIT,
+  MAX_KNOWN_ADDRESSES,
+  createLimiter,
+  decodeCursor,
+  getChainBackend,
+  historyPage,
+  initialCursor,
+  syncWallet,
+} from "./chain";
+
+// Parallel backend lookups per /api/utxos or /api/wallet/history request
+const REQUEST_CONCURRENCY = 8;
+
+const MAX_HISTORY_PAGE = 100;
+
+// Fee estimates move with each block; refreshing once a minute is plenty
+const FEE_CACHE_MS = 60000;
+
+const TRANSACTION_KINDS: TransactionKind[] = ["received", "sent", "self", "consolidation"];
+
+// Clients pass ?network=...; requests without one are for mainnet. Returns
+// the backend along with the checked network, or sends an error response and
+// returns null if the network is unknown or its backend is not configured.
+function chainBackend(req: Request, res: Response): { backend: ChainBackend; network: NetworkName } | null {
+  const network = req.query.network ?? "mainnet";
+  if (!isNetworkName(network)) {
+    res.status(400).json({ error: "Unknown network" });
+    return null;
+  }
+  
+  try {
+    return { backend: getChainBackend(network), network };
+  } catch (error: any) {
+    console.error("Chain backend unavailable:", error);
+    res.status(503).json({ error: error.message });
+    return null;
+  }
+}
+
+// Chains to scan for a sync request: ranged descriptors (receive and change
+// separately, or one /<0;1>/* descriptor for both) or a fixed list of output
+// scripts in hex. Throws with a message for the client on invalid input.
+function syncChains(body: any, network: NetworkName): SyncChain[] {
+  const { descriptors, scripts } = body;
+  // Addresses the client has already handed out, scanned even past the gap
+  const known = body.known ?? {};
+  
+  if (Array.isArray(scripts)) {
+    if (scripts.length > MAX_KNOWN_ADDRESSES) {
+      throw new Error(`At most ${MAX_KNOWN_ADDRESSES} scripts can be synced at once`);
+    }
+    const addresses = scripts.map((script: unknown) => {
+      if (typeof script !== "string" || !/^([0-9a-f]{2})+$/i.test(script)) {
+        throw new Error("Scripts must be hex encoded");
+      }
+      return bitcoin.address.fromOutputScript(Buffer.from(script, "hex"), bitcoinNetwork(network));
+    });
+    return [{ change: 0, addresses }];
+  }
+  
+  if (!Array.isArray(descriptors) || descriptors.length === 0 || descriptors.some((d) => typeof d !== "string")) {
+    throw new Error("Descriptors or scripts array required");
+  }
+  
+  const chains: SyncChain[] = [];
+  for (const descriptor of descriptors) {
+    const parsed = parseDescriptor(descriptor, network);
+    for (const change of parsed.chains) {
+      if (chains.some((chain) => chain.change === change)) {
+        throw new Error(`More than one descriptor covers chain ${change}`);
+      }
+      const knownCount = Number(change === 0 ? known.receive : known.change) || 0;
+      chains.push({
+        change,
+        descriptor,
+        derive: (index) => parsed.address(change, index),
+        known: Math.min(Math.max(0, Math.floor(knownCount)), MAX_KNOWN_ADDRESSES),
+      });
+    }
+  }
+  return chains;
+}
+
+// Type and date filters for a history request. Throws with a message for
+// the client on invalid input.
+function historyFilter(body: any): HistoryFilter {
+  const { types, from, to } = body;
+  
+  if (types !== undefined && (!Array.isArray(types) || types.some((type) => !TRANSACTION_KINDS.includes(type)))) {
+    throw new Error(`Types must be a list of ${TRANSACTION_KINDS.join(", ")}`);
+  }
+  for (const bound of [from, to]) {
+    if (bound !== undefined && !Number.isFinite(bound)) {
+      throw new Error("Date bounds must be unix times");
+    }
+  }
+  return { types, from, to };
+}
 
 export async function registerRoutes(
   httpServer: Server,
@@ -65,55 +174,97 @@ export async function registerRoutes(
     res.json({ price: cachedPrice })
   });
 
+  // Daily USD price for a past date, used to value transactions when they
+  // happened. Past days never change, so each is fetched once.
+  const historicalPrices = new Map<string, number>();
+  
+  app.get("/api/btc-price/history", async (req, res) => {
+    const time = Number(req.query.time);
+    if (!Number.isFinite(time) || time <= 0) {
+      res.status(400).json({ error: "time must be a unix time" });
+      return;
+    }
+    
+    const day = new Date(time * 1000).toISOString().slice(0, 10);
+    const cached = historicalPrices.get(day);
+    if (cached) {
+      res.json({ price: cached, date: day });
+      return;
+    }
+    
+    const [year, month, date] = day.split("-");
+    const priceSources = [
+      {
+        name: "CoinGecko",
+        url: `https://api.coingecko.com/api/v3/coins/bitcoin/history?date=${date}-${month}-${year}&localization=false`,
+        extract: (data: any) => data?.market_data?.current_price?.usd
+      },
+      {
+        name: "Coinbase",
+        url: `https://api.coinbase.com/v2/prices/BTC-USD/spot?date=${day}`,
+        extract: (data: any) => data?.data?.amount ? parseFloat(data.data.amount) : null
+      }
+    ];
+    
+    for (const source of priceSources) {
+      try {
+        const response = await fetch(source.url, { signal: AbortSignal.timeout(3000) });
+        const data = await response.json();
+        const price = source.extract(data);
+        
+        if (price && price > 0) {
+          // Today's price is still moving
+          if (day !== new Date().toISOString().slice(0, 10)) {
+            historicalPrices.set(day, price);
+          }
+          res.json({ price, date: day });
+          return;
+        }
+      } catch (error) {
+        console.log(`${source.name} historical price fetch failed, trying next...`);
+      }
+    }
+    
+    res.status(502).json({ error: "Historical price unavailable" });
+  });
+
   // Get address balance and transactions from Blockstream API (better bc1 support)
   app.get("/api/address/:address", async (req, res) => {
+    const chain = chainBackend(req, res);
+    if (!chain) return;
+    const { backend } = chain;
+    
     try {
       const { address } = req.params;
       
-      // Use Blockstream API - better support for Native SegWit addresses
-      const [addressResponse, txsResponse] = await Promise.all([
-        fetch(`https://blockstream.info/api/address/${address}`),
-        fetch(`https://blockstream.info/api/address/${address}/txs`)
+      const [stats, txs] = await Promise.all([
+        backend.getAddressStats(address),
+        backend.getAddressTxs(address).catch(() => [])
       ]);
       
-      if (!addressResponse.ok) {
-        // Address might be new with no history
-        res.json({ balance: 0, transactions: [] });
-        return;
-      }
-      
-      const addressData = await addressResponse.json();
-      const txsData = txsResponse.ok ? await txsResponse.json() : [];
-      
       // Calculate balance (funded - spent) in BTC
-      const balanceSatoshis = 
-        (addressData.chain_stats.funded_txo_sum - addressData.chain_stats.spent_txo_sum) +
-        (addressData.mempool_stats.funded_txo_sum - addressData.mempool_stats.spent_txo_sum);
-      const balanceBTC = balanceSatoshis / 100000000;
+      const balanceBTC = (stats.confirmedBalance + stats.unconfirmedBalance) / 100000000;
       
       // Format transactions
-      const transactions = txsData.slice(0, 10).map((tx: any) => {
+      const transactions = txs.slice(0, 10).map((tx) => {
         // Determine if sent or received by checking inputs
-        const isSent = tx.vin.some((input: any) => 
-          input.prevout?.scriptpubkey_address === address
-        );
+        const isSent = tx.vin.some((input) => input.prevout?.address === address);
         
         // Calculate amount for this address
         let amount = 0;
         if (isSent) {
           // Sum outputs not going back to this address
           amount = tx.vout
-            .filter((out: any) => out.scriptpubkey_address !== address)
-            .reduce((sum: number, out: any) => sum + (out.value || 0), 0) / 100000000;
+            .filter((out) => out.address !== address)
+            .reduce((sum, out) => sum + out.value, 0) / 100000000;
         } else {
           // Sum outputs going to this address
           amount = tx.vout
-            .filter((out: any) => out.scriptpubkey_address === address)
-            .reduce((sum: number, out: any) => sum + (out.value || 0), 0) / 100000000;
+            .filter((out) => out.address === address)
+            .reduce((sum, out) => sum + out.value, 0) / 100000000;
         }
         
-        const isConfirmed = tx.status?.confirmed === true;
-        const txTime = tx.status?.block_time || Math.floor(Date.now() / 1000);
+        const txTime = tx.status.blockTime || Math.floor(Date.now() / 1000);
         
         return {
           id: tx.txid,
@@ -121,9 +272,9 @@ export async function registerRoutes(
           amount,
           date: new Date(txTime * 1000).toISOString(),
           address: isSent 
-            ? tx.vout.find((o: any) => o.scriptpubkey_address !== address)?.scriptpubkey_address || "Unknown"
-            : tx.vin[0]?.prevout?.scriptpubkey_address || "Unknown",
-          status: isConfirmed ? "confirmed" : "pending"
+            ? tx.vout.find((o) => o.address !== address)?.address || "Unknown"
+            : tx.vin[0]?.prevout?.address || "Unknown",
+          status: tx.status.confirmed ? "confirmed" : "pending"
         };
       });
       
@@ -149,11 +300,17 @@ export async function registerRoutes(
       }
       
       // For Native SegWit addresses (bc1...), we need special handling
-      const isSegwit = address.startsWith('bc1') || address.startsWith('tb1');
+      const isSegwit = address.startsWith('bc1') || address.startsWith('tb1') || address.startsWith('bcrt1');
+      // Nested SegWit (3... or 2... on test networks) signatures from Ledger carry a P2PKH header
+      const isNestedSegwit = address.startsWith('3') || address.startsWith('2');
       
       try {
         // Try standard verification first
         const isValid = bitcoinMessage.verify(message, address, signature);
+        if (!isValid && isNestedSegwit) {
+          res.json({ valid: bitcoinMessage.verify(message, address, signature, undefined, true) });
+          return;
+        }
         res.json({ valid: isValid });
         return;
       } catch (e1) {
@@ -197,37 +354,49 @@ export async function registerRoutes(
     }
   });
 
-  // Get UTXOs for addresses
+  // Get UTXOs for receive (change = 0) and change (change = 1) addresses
   app.post("/api/utxos", async (req, res) => {
+    const chain = chainBackend(req, res);
+    if (!chain) return;
+    const { backend } = chain;
+    
     try {
-      const { addresses } = req.body;
+      const { addresses, changeAddresses = [] } = req.body;
       
-      if (!addresses || !Array.isArray(addresses)) {
+      if (!addresses || !Array.isArray(addresses) || !Array.isArray(changeAddresses)) {
         res.status(400).json({ error: "Addresses array required" });
         return;
       }
       
-      const allUtxos: any[] = [];
+      const limit = createLimiter(REQUEST_CONCURRENCY);
+      const chains: [string[], number][] = [[addresses, 0], [changeAddresses, 1]];
       
-      for (const address of addresses) {
-        try {
-          const response = await fetch(`https://blockstream.info/api/address/${address}/utxo`);
-          if (response.ok) {
-            const utxos = await response.json();
-            // Add address index info to each UTXO
-            const addressIndex = addresses.indexOf(address);
-            for (const utxo of utxos) {
-              allUtxos.push({
-                ...utxo,
+      const results = await Promise.all(
+        chains.flatMap(([chainAddresses, change]) =>
+          chainAddresses.map((address: string, addressIndex: number) =>
+            limit(() => backend.getUtxos(address))
+              // Add derivation info (chain and address index) to each UTXO
+              .then((utxos) => utxos.map((utxo) => ({
+                txid: utxo.txid,
+                vout: utxo.vout,
+                value: utxo.value,
+                status: {
+                  confirmed: utxo.status.confirmed,
+                  block_height: utxo.status.blockHeight,
+                  block_time: utxo.status.blockTime
+                },
                 address,
-                addressIndex
-              });
-            }
-          }
-        } catch (err) {
-          console.log(`Failed to fetch UTXOs for ${address}`);
-        }
-      }
+                addressIndex,
+                change
+              })))
+              .catch(() => {
+                console.log(`Failed to fetch UTXOs for ${address}`);
+                return [];
+              })
+          )
+        )
+      );
+      const allUtxos = results.flat();
       
       res.json({ utxos: allUtxos });
     } catch (error) {
@@ -236,18 +405,50 @@ export async function registerRoutes(
     }
   });
 
+  // Decoded transaction with previous outputs, plus the tip height so the
+  // client can count confirmations
+  app.get("/api/tx/:txid", async (req, res) => {
+    const chain = chainBackend(req, res);
+    if (!chain) return;
+    const { backend } = chain;
+    
+    if (!/^[0-9a-f]{64}$/i.test(req.params.txid)) {
+      res.status(400).json({ error: "Invalid txid" });
+      return;
+    }
+    
+    try {
+      const [tx, tipHeight] = await Promise.all([
+        backend.getTx(req.params.txid.toLowerCase()),
+        backend.getTipHeight(),
+      ]);
+      
+      if (!tx) {
+        res.status(404).json({ error: "Transaction not found" });
+        return;
+      }
+      
+      res.json({ tx, tipHeight });
+    } catch (error) {
+      console.error("Error fetching transaction:", error);
+      res.status(500).json({ error: "Failed to fetch transaction" });
+    }
+  });
+
   // Get raw transaction hex for PSBT input
   app.get("/api/tx/:txid/hex", async (req, res) => {
+    const chain = chainBackend(req, res);
+    if (!chain) return;
+    const { backend } = chain;
+    
     try {
-      const { txid } = req.params;
-      const response = await fetch(`https://blockstream.info/api/tx/${txid}/hex`);
+      const hex = await backend.getTxHex(req.params.txid);
       
-      if (!response.ok) {
+      if (!hex) {
         res.status(404).json({ error: "Transaction not found" });
         return;
       }
       
-      const hex = await response.text();
       res.json({ hex });
     } catch (error) {
       console.error("Error fetching transaction:", error);
@@ -255,8 +456,151 @@ export async function registerRoutes(
     }
   });
 
+  // Current chain height, used to work out relative timelocks
+  app.get("/api/blocks/tip-height", async (req, res) => {
+    const chain = chainBackend(req, res);
+    if (!chain) return;
+    const { backend } = chain;
+    
+    try {
+      const height = await backend.getTipHeight();
+      res.json({ height });
+    } catch (error) {
+      console.error("Error fetching tip height:", error);
+      res.status(500).json({ error: "Failed to fetch tip height" });
+    }
+  });
+
+  // Fee rates (sat/vB) by confirmation target in blocks, cached per network
+  const feeCache = new Map<NetworkName, { estimates: FeeEstimates; updated: number }>();
+  
+  app.get("/api/fees", async (req, res) => {
+    const chain = chainBackend(req, res);
+    if (!chain) return;
+    const { backend, network } = chain;
+    
+    const cached = feeCache.get(network);
+    if (cached && Date.now() - cached.updated < FEE_CACHE_MS) {
+      res.json({ estimates: cached.estimates });
+      return;
+    }
+    
+    try {
+      const estimates = await backend.getFeeEstimates();
+      feeCache.set(network, { estimates, updated: Date.now() });
+      res.json({ estimates });
+    } catch (error) {
+      console.error("Error fetching fee estimates:", error);
+      // Stale estimates beat none
+      if (cached) {
+        res.json({ estimates: cached.estimates });
+        return;
+      }
+      res.status(500).json({ error: "Failed to fetch fee estimates" });
+    }
+  });
+
+  // Register an account's ranged descriptors with backends that need them.
+  // Backends that can look up any address accept this as a no-op.
+  app.post("/api/wallet/import", async (req, res) => {
+    const chain = chainBackend(req, res);
+    if (!chain) return;
+    const { backend } = chain;
+    
+    try {
+      const { descriptors } = req.body;
+      
+      if (!Array.isArray(descriptors) || descriptors.some((d) => typeof d !== "string")) {
+        res.status(400).json({ error: "Descriptors array required" });
+        return;
+      }
+      
+      if (!backend.importDescriptors) {
+        res.json({ imported: false });
+        return;
+      }
+      
+      await backend.importDescriptors(descriptors);
+      res.json({ imported: true });
+    } catch (error: any) {
+      console.error("Error importing descriptors:", error);
+      res.status(500).json({ error: error.message || "Failed to import descriptors" });
+    }
+  });
+
+  // Balance, history, UTXOs and next unused indexes for a whole wallet in
+  // one request, scanning its descriptors up to the gap limit
+  app.post("/api/wallet/sync", async (req, res) => {
+    const chain = chainBackend(req, res);
+    if (!chain) return;
+    const { backend, network } = chain;
+    
+    const gapLimit = req.body.gapLimit ?? 20;
+    if (!Number.isInteger(gapLimit) || gapLimit < 1 || gapLimit > MAX_GAP_LIMIT) {
+      res.status(400).json({ error: `Gap limit must be between 1 and ${MAX_GAP_LIMIT}` });
+      return;
+    }
+    
+    let chains: SyncChain[];
+    try {
+      chains = syncChains(req.body, network);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    
+    try {
+      res.json(await syncWallet(backend, chains, gapLimit));
+    } catch (error) {
+      console.error("Error syncing wallet:", error);
+      res.status(500).json({ error: "Failed to sync wallet" });
+    }
+  });
+
+  // One page of wallet history, newest first. Start with the wallet's used
+  // addresses, then pass back the returned cursor for each following page.
+  app.post("/api/wallet/history", async (req, res) => {
+    const chain = chainBackend(req, res);
+    if (!chain) return;
+    const { backend } = chain;
+    
+    const { addresses, cursor, limit = 25 } = req.body;
+    
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_PAGE) {
+      res.status(400).json({ error: `Limit must be between 1 and ${MAX_HISTORY_PAGE}` });
+      return;
+    }
+    
+    let start: HistoryCursor;
+    let filter: HistoryFilter;
+    try {
+      if (typeof cursor === "string") {
+        start = decodeCursor(cursor);
+      } else if (Array.isArray(addresses) && addresses.every((address) => typeof address === "string")) {
+        start = initialCursor(addresses);
+      } else {
+        throw new Error("Cursor or addresses array required");
+      }
+      filter = historyFilter(req.body);
+    } catch (error: any) {
+      res.status(400).json({ error: error instanceof SyntaxError ? "Invalid history cursor" : error.message });
+      return;
+    }
+    
+    try {
+      res.json(await historyPage(backend, start, limit, filter, createLimiter(REQUEST_CONCURRENCY)));
+    } catch (error) {
+      console.error("Error fetching wallet history:", error);
+      res.status(500).json({ error: "Failed to fetch wallet history" });
+    }
+  });
+
   // Broadcast signed transaction
   app.post("/api/broadcast", async (req, res) => {
+    const chain = chainBackend(req, res);
+    if (!chain) return;
+    const { backend } = chain;
+    
     try {
       const { txHex } = req.body;
       
@@ -265,21 +609,13 @@ export async function registerRoutes(
         return;
       }
       
-      const response = await fetch("https://blockstream.info/api/tx", {
-        method: "POST",
-        body: txHex,
-        headers: { "Content-Type": "text/plain" }
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        res.status(400).json({ error: errorText || "Broadcast failed" });
-        return;
-      }
-      
-      const txid = await response.text();
+      const txid = await backend.broadcast(txHex);
       res.json({ txid });
     } catch (error) {
+      if (error instanceof BroadcastRejectedError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
       console.error("Error broadcasting transaction:", error);
       res.status(500).json({ error: "Failed to broadcast transaction" });
     }
@@ -0,0 +1,161 @@
+import { Buffer } from "buffer";
+import * as bitcoin from "bitcoinjs-lib";
+import * as ecc from "@bitcoinerlab/secp256k1";
+import { HDKey } from "@scure/bip32";
+import { type NetworkName, bitcoinNetwork } from "./networks";
+
+// Taproot payments and PSBT fields need an ECC backend; this one is pure JS
+bitcoin.initEccLib(ecc);
+
+// Script derivation shared by the browser, which builds and signs
+// transactions, and the server, which scans descriptors for wallet sync
+
+export type ScriptType = "pkh" | "sh(wpkh)" | "wpkh" | "tr";
+
+export function toXOnly(pubkey: Buffer): Buffer {
+  return pubkey.length === 32 ? pubkey : pubkey.subarray(1, 33);
+}
+
+export function pubkeyToAddress(pubkey: Buffer, scriptType: ScriptType, network: bitcoin.Network): string | undefined {
+  switch (scriptType) {
+    case "pkh":
+      return bitcoin.payments.p2pkh({ pubkey, network }).address;
+    case "sh(wpkh)":
+      return bitcoin.payments.p2sh({ redeem: bitcoin.payments.p2wpkh({ pubkey, network }), network }).address;
+    case "tr":
+      return bitcoin.payments.p2tr({ internalPubkey: toXOnly(pubkey), network }).address;
+    default:
+      return bitcoin.payments.p2wpkh({ pubkey, network }).address;
+  }
+}
+
+// sortedmulti orders keys lexicographically (BIP67)
+export function sortedMultiScript(threshold: number, pubkeys: Buffer[]): Buffer {
+  const { output } = bitcoin.payments.p2ms({ m: threshold, pubkeys: [...pubkeys].sort(Buffer.compare) });
+  if (!output) {
+    throw new Error("Failed to build multisig script");
+  }
+  return Buffer.from(output);
+}
+
+// or_d(pk(primary),and_v(v:pkh(recovery),older(timelock))) compiled to script
+export function vaultScript(primary: Buffer, recovery: Buffer, timelock: number): Buffer {
+  const { opcodes } = bitcoin;
+  return Buffer.from(bitcoin.script.compile([
+    primary, opcodes.OP_CHECKSIG, opcodes.OP_IFDUP, opcodes.OP_NOTIF,
+    opcodes.OP_DUP, opcodes.OP_HASH160, bitcoin.crypto.hash160(recovery), opcodes.OP_EQUALVERIFY, opcodes.OP_CHECKSIGVERIFY,
+    bitcoin.script.number.encode(timelock), opcodes.OP_CHECKSEQUENCEVERIFY,
+    opcodes.OP_ENDIF
+  ]));
+}
+
+export function witnessScriptAddress(witnessScript: Buffer, network: bitcoin.Network): string | undefined {
+  return bitcoin.payments.p2wsh({ redeem: { output: witnessScript }, network }).address;
+}
+
+// A ranged descriptor reduced to what a scan needs: which chains it covers
+// (0 = receive, 1 = change) and the address at each index
+export interface RangedDescriptor {
+  chains: number[];
+  address(change: number, index: number): string;
+}
+
+interface RangedKey {
+  chains: number[];
+  derive(change: number, index: number): Buffer;
+}
+
+// Optional origin, then an extended public key ranged over /0/*, /1/* or /<0;1>/*
+const RANGED_KEY_PATTERN = /^(?:\[[0-9a-fA-F]{8}(?:\/\d+['hH]?)*\])?([1-9A-HJ-NP-Za-km-z]+)\/(<0;1>|0|1)\/\*$/;
+
+const SINGLE_KEY_PATTERNS: [ScriptType, RegExp][] = [
+  ["pkh", /^pkh\(([^(),]+)\)$/],
+  ["sh(wpkh)", /^sh\(wpkh\(([^(),]+)\)\)$/],
+  ["wpkh", /^wpkh\(([^(),]+)\)$/],
+  ["tr", /^tr\(([^(),]+)\)$/],
+];
+
+const SORTED_MULTI_PATTERN = /^wsh\(sortedmulti\((\d+),([^()]+)\)\)$/;
+
+const VAULT_PATTERN = /^wsh\(or_d\(pk\(([^(),]+)\),and_v\(v:pkh\(([^(),]+)\),older\((\d+)\)\)\)\)$/;
+
+function parseRangedKey(expression: string, network: NetworkName): RangedKey {
+  const match = expression.match(RANGED_KEY_PATTERN);
+  if (!match) {
+    throw new Error(`Unsupported key expression: ${expression.slice(0, 24)}...`);
+  }
+
+  const node = HDKey.fromExtendedKey(match[1], bitcoinNetwork(network).bip32);
+  if (node.privateKey) {
+    throw new Error("Descriptors must only contain public keys");
+  }
+  const chains = match[2] === "<0;1>" ? [0, 1] : [Number(match[2])];
+  const chainNodes = new Map(chains.map((change) => [change, node.deriveChild(change)]));
+
+  return {
+    chains,
+    derive(change, index) {
+      const child = chainNodes.get(change)?.deriveChild(index);
+      if (!child?.publicKey) {
+        throw new Error(`Failed to derive public key for ${change}/${index}`);
+      }
+      return Buffer.from(child.publicKey);
+    },
+  };
+}
+
+function rangedDescriptor(keys: RangedKey[], toAddress: (pubkeys: Buffer[]) => string | undefined): RangedDescriptor {
+  const chains = keys[0].chains;
+  if (keys.some((key) => key.chains.join() !== chains.join())) {
+    throw new Error("Every key in a descriptor must cover the same chains");
+  }
+
+  return {
+    chains,
+    address(change, index) {
+      const address = toAddress(keys.map((key) => key.derive(change, index)));
+      if (!address) {
+        throw new Error(`Failed to derive address for ${change}/${index}`);
+      }
+      return address;
+    },
+  };
+}
+
+// Parse the descriptors this wallet produces: single-key accounts,
+// wsh(sortedmulti(...)) and timelock vault policies. A trailing checksum is
+// ignored, and h is accepted as the hardened marker in key origins.
+export function parseDescriptor(descriptor: string, network: NetworkName): RangedDescriptor {
+  const trimmed = descriptor.trim().replace(/#[a-z0-9]{8}$/, "");
+  const btcNetwork = bitcoinNetwork(network);
+
+  for (const [scriptType, pattern] of SINGLE_KEY_PATTERNS) {
+    const match = trimmed.match(pattern);
+    if (match) {
+      return rangedDescriptor([parseRangedKey(match[1], network)], ([pubkey]) =>
+        pubkeyToAddress(pubkey, scriptType, btcNetwork)
+      );
+    }
+  }
+
+  const multi = trimmed.match(SORTED_MULTI_PATTERN);
+  if (multi) {
+    const threshold = Number(multi[1]);
+    const keys = multi[2].split(",").map((key) => parseRangedKey(key, network));
+    if (threshold < 1 || threshold > keys.length) {
+      throw new Error(`Threshold must be between 1 and ${keys.length}`);
+    }
+    return rangedDescriptor(keys, (pubkeys) => witnessScriptAddress(sortedMultiScript(threshold, pubkeys), btcNetwork));
+  }
+
+  const vault = trimmed.match(VAULT_PATTERN);
+  if (vault) {
+    const timelock = Number(vault[3]);
+    const keys = [parseRangedKey(vault[1], network), parseRangedKey(vault[2], network)];
+    return rangedDescriptor(keys, ([primary, recovery]) =>
+      witnessScriptAddress(vaultScript(primary, recovery, timelock), btcNetwork)
+    );
+  }
+
+  throw new Error(`Unsupported descriptor: ${trimmed.slice(0, 24)}...`);
+}
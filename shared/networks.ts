@@ -0,0 +1,57 @@
+import * as bitcoin from "bitcoinjs-lib";
+
+export type NetworkName = "mainnet" | "testnet" | "signet" | "regtest";
+
+interface NetworkInfo {
+  label: string;
+  // BIP44 coin type: 0' for mainnet, 1' for every test network
+  coinType: number;
+  // Public block explorer, if the network has one
+  explorerUrl: string | null;
+}
+
+export const NETWORKS: Record<NetworkName, NetworkInfo> = {
+  mainnet: {
+    label: "Mainnet",
+    coinType: 0,
+    explorerUrl: "https://mempool.space",
+  },
+  testnet: {
+    label: "Testnet",
+    coinType: 1,
+    explorerUrl: "https://mempool.space/testnet",
+  },
+  signet: {
+    label: "Signet",
+    coinType: 1,
+    explorerUrl: "https://mempool.space/signet",
+  },
+  regtest: {
+    label: "Regtest",
+    coinType: 1,
+    explorerUrl: null,
+  },
+};
+
+export function isNetworkName(value: unknown): value is NetworkName {
+  // Own keys only, so "constructor" and the like are not networks
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(NETWORKS, value);
+}
+
+export function explorerTxUrl(network: NetworkName, txid: string): string | null {
+  const { explorerUrl } = NETWORKS[network];
+  return explorerUrl ? `${explorerUrl}/tx/${txid}` : null;
+}
+
+// Signet shares testnet's address and key version bytes
+export function bitcoinNetwork(network: NetworkName): bitcoin.Network {
+  switch (network) {
+    case "testnet":
+    case "signet":
+      return bitcoin.networks.testnet;
+    case "regtest":
+      return bitcoin.networks.regtest;
+    default:
+      return bitcoin.networks.bitcoin;
+  }
+}